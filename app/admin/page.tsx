@@ -0,0 +1,299 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { ProgressReport, RoundProgress, ThroughputBucket } from '@/lib/analytics/progress'
+
+const formatPercent = (value: number | null) => (value === null ? '–' : `${Math.round(value * 100)}%`)
+
+const ROUND_SEGMENTS: { key: keyof Omit<RoundProgress, 'round'>; label: string; color: string }[] = [
+  { key: 'done', label: 'Done', color: '#4caf50' },
+  { key: 'leased', label: 'Leased', color: '#667eea' },
+  { key: 'pending', label: 'Pending', color: '#ffb74d' },
+  { key: 'notNeeded', label: 'Not needed', color: '#e0e0e0' },
+]
+
+interface InvalidationForm {
+  annotatorId: string
+  from: string // datetime-local value, in the admin's time zone
+  to: string
+  reason: string
+}
+
+const EMPTY_INVALIDATION: InvalidationForm = { annotatorId: '', from: '', to: '', reason: '' }
+
+const toIsoTime = (value: string) => (value ? new Date(value).toISOString() : undefined)
+
+function RoundBar({ progress }: { progress: RoundProgress }) {
+  const total = ROUND_SEGMENTS.reduce((sum, { key }) => sum + progress[key], 0)
+  return (
+    <div className="progress-bar">
+      {ROUND_SEGMENTS.map(({ key, label, color }) => progress[key] > 0 && (
+        <div
+          key={key}
+          style={{ width: `${(progress[key] / total) * 100}%`, background: color }}
+          title={`${label}: ${progress[key]}`}
+        />
+      ))}
+    </div>
+  )
+}
+
+export default function AdminPage() {
+  const [report, setReport] = useState<ProgressReport | null>(null)
+  const [bucket, setBucket] = useState<ThroughputBucket>('day')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [invalidation, setInvalidation] = useState<InvalidationForm>(EMPTY_INVALIDATION)
+  const [invalidating, setInvalidating] = useState(false)
+  const [invalidationResult, setInvalidationResult] = useState<string | null>(null)
+
+  const loadReport = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const response = await fetch(`/api/admin/progress?bucket=${bucket}`, { cache: 'no-store' })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load study progress')
+      }
+      setReport(result)
+    } catch (err: any) {
+      setError(err.message || 'Failed to load study progress')
+    } finally {
+      setLoading(false)
+    }
+  }, [bucket])
+
+  useEffect(() => {
+    loadReport()
+  }, [loadReport])
+
+  const invalidate = async () => {
+    const scope = [
+      invalidation.annotatorId && `annotator ${invalidation.annotatorId}`,
+      invalidation.from && `from ${invalidation.from.replace('T', ' ')}`,
+      invalidation.to && `until ${invalidation.to.replace('T', ' ')}`,
+    ].filter(Boolean).join(', ')
+    if (!window.confirm(`Invalidate all submissions (${scope}) and reopen their rounds?`)) return
+
+    try {
+      setInvalidating(true)
+      setInvalidationResult(null)
+      const response = await fetch('/api/admin/invalidate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          annotatorId: invalidation.annotatorId || undefined,
+          from: toIsoTime(invalidation.from),
+          to: toIsoTime(invalidation.to),
+          reason: invalidation.reason || undefined,
+        }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to invalidate submissions')
+      }
+      setInvalidationResult(`Invalidated ${result.invalidated} submission(s); ${result.rows.length} round(s) reopened.`)
+      setInvalidation(EMPTY_INVALIDATION)
+      loadReport()
+    } catch (err: any) {
+      setInvalidationResult(err.message || 'Failed to invalidate submissions')
+    } finally {
+      setInvalidating(false)
+    }
+  }
+
+  const maxThroughput = report ? Math.max(1, ...report.throughput.points.map(point => point.rows)) : 1
+
+  return (
+    <div className="container">
+      <div className="header">
+        <h1>Study Progress</h1>
+        {report && (
+          <p>
+            {report.rows.complete} of {report.rows.eligible} sentences complete · updated {new Date(report.generatedAt).toLocaleString()}
+          </p>
+        )}
+      </div>
+
+      <div className="navigation" style={{ flexWrap: 'wrap', gap: '20px' }}>
+        <label>
+          <strong>Throughput per</strong>{' '}
+          <select value={bucket} onChange={(e) => setBucket(e.target.value as ThroughputBucket)}>
+            <option value="hour">hour</option>
+            <option value="day">day</option>
+          </select>
+        </label>
+        <button onClick={loadReport} className="btn btn-primary" disabled={loading} type="button">
+          {loading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && (
+        <div style={{ color: '#d32f2f', textAlign: 'center', marginBottom: '20px' }}>{error}</div>
+      )}
+
+      {report && (
+        <>
+          <div className="stat-grid">
+            <div className="stat-card">
+              <div className="stat-value">{report.prolific.slotsNeeded}</div>
+              <div className="stat-label">Prolific slots still needed (batches of {report.prolific.batchSize})</div>
+            </div>
+            <div className="stat-card">
+              <div className="stat-value">{report.rows.remainingRankings}</div>
+              <div className="stat-label">Rankings still needed ({report.rows.leasedRankings} in progress)</div>
+            </div>
+            <div className="stat-card">
+              <div className="stat-value">{report.rows.lowAgreement}</div>
+              <div className="stat-label">Sentences reopened because annotators disagree</div>
+            </div>
+            <div className="stat-card">
+              <div className="stat-value">{report.throughput.lastDayRows}</div>
+              <div className="stat-label">Sentences submitted in the last 24 hours</div>
+            </div>
+            <div className="stat-card">
+              <div className="stat-value">{formatPercent(report.prolific.flagRate)}</div>
+              <div className="stat-label">Annotators flagged by gold checks</div>
+            </div>
+          </div>
+          {report.rows.stuck > 0 && (
+            <p style={{ color: '#d32f2f', marginBottom: '20px' }}>
+              ⚠️ {report.rows.stuck} sentence(s) have no empty round left but still need rankings. Raise `extraRounds` to finish them.
+            </p>
+          )}
+
+          <h3 style={{ marginBottom: '10px', color: '#333' }}>Rounds</h3>
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Round</th>
+                {ROUND_SEGMENTS.map(({ key, label }) => <th key={key} className="numeric">{label}</th>)}
+                <th style={{ width: '40%' }}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.rounds.map(progress => (
+                <tr key={progress.round}>
+                  <td>{progress.round}</td>
+                  {ROUND_SEGMENTS.map(({ key }) => <td key={key} className="numeric">{progress[key]}</td>)}
+                  <td><RoundBar progress={progress} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h3 style={{ marginBottom: '10px', color: '#333' }}>Throughput (completed batches)</h3>
+          {report.throughput.points.length === 0 ? (
+            <p style={{ color: '#666', marginBottom: '30px' }}>No batches completed yet.</p>
+          ) : (
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>{bucket === 'hour' ? 'Hour' : 'Day'} (UTC)</th>
+                  <th className="numeric">Batches</th>
+                  <th className="numeric">Sentences</th>
+                  <th style={{ width: '40%' }}></th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.throughput.points.map(point => (
+                  <tr key={point.start}>
+                    <td>{bucket === 'hour' ? point.start.slice(0, 16).replace('T', ' ') : point.start.slice(0, 10)}</td>
+                    <td className="numeric">{point.batches}</td>
+                    <td className="numeric">{point.rows}</td>
+                    <td>
+                      <div className="progress-bar">
+                        <div style={{ width: `${(point.rows / maxThroughput) * 100}%`, background: '#667eea' }} />
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <h3 style={{ marginBottom: '10px', color: '#333' }}>Annotators</h3>
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Annotator</th>
+                <th className="numeric">Rankings</th>
+                <th className="numeric">Batches (done / active)</th>
+                <th className="numeric">Gold accuracy</th>
+                <th className="numeric">Fast submissions</th>
+                <th>Flags</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.annotators.map(annotator => (
+                <tr key={annotator.annotatorId}>
+                  <td>{annotator.annotatorId}</td>
+                  <td className="numeric">{annotator.rankings}</td>
+                  <td className="numeric">{annotator.batches} ({annotator.completedBatches} / {annotator.activeBatches})</td>
+                  <td className="numeric">{formatPercent(annotator.goldAccuracy)}</td>
+                  <td className="numeric">{annotator.speedFlags}</td>
+                  <td style={{ color: '#d32f2f' }}>
+                    {[annotator.goldFlagged ? 'failed gold' : '', annotator.speedFlags > 0 ? 'too fast' : ''].filter(Boolean).join(', ')}
+                  </td>
+                  <td>
+                    <button
+                      type="button"
+                      className="btn"
+                      onClick={() => setInvalidation({ ...EMPTY_INVALIDATION, annotatorId: annotator.annotatorId })}
+                    >
+                      Invalidate…
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h3 style={{ marginBottom: '10px', color: '#333' }}>Invalidate submissions</h3>
+          <p style={{ color: '#666', marginBottom: '10px' }}>
+            Voids every submission by the annotator and/or within the time window and empties their rounds, so the sentences are handed out again. The submissions stay in the audit log (<a href="/api/admin/audit">view</a>).
+          </p>
+          <div className="navigation" style={{ flexWrap: 'wrap', gap: '10px', justifyContent: 'flex-start' }}>
+            <input
+              placeholder="Annotator ID"
+              value={invalidation.annotatorId}
+              onChange={(e) => setInvalidation(prev => ({ ...prev, annotatorId: e.target.value }))}
+            />
+            <label>
+              From{' '}
+              <input
+                type="datetime-local"
+                value={invalidation.from}
+                onChange={(e) => setInvalidation(prev => ({ ...prev, from: e.target.value }))}
+              />
+            </label>
+            <label>
+              Until{' '}
+              <input
+                type="datetime-local"
+                value={invalidation.to}
+                onChange={(e) => setInvalidation(prev => ({ ...prev, to: e.target.value }))}
+              />
+            </label>
+            <input
+              placeholder="Reason (optional)"
+              value={invalidation.reason}
+              onChange={(e) => setInvalidation(prev => ({ ...prev, reason: e.target.value }))}
+            />
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={invalidate}
+              disabled={invalidating || (!invalidation.annotatorId && !invalidation.from && !invalidation.to)}
+            >
+              {invalidating ? 'Invalidating...' : 'Invalidate'}
+            </button>
+          </div>
+          {invalidationResult && <p style={{ color: '#666', marginBottom: '20px' }}>{invalidationResult}</p>}
+        </>
+      )}
+    </div>
+  )
+}
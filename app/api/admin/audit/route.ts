@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { invalidatedEventIds } from '@/lib/audit'
+import { getAnnotationStore, StorageError } from '@/lib/storage'
+
+export const dynamic = 'force-dynamic'
+
+// The audit log, newest first; ?annotatorId= keeps that annotator's submissions and the invalidations naming them
+export async function GET(request: NextRequest) {
+  try {
+    const annotatorId = request.nextUrl.searchParams.get('annotatorId')
+    const events = await getAnnotationStore().listAuditEvents()
+    const voided = invalidatedEventIds(events)
+
+    const entries = events
+      .filter(event => !annotatorId || (event.type === 'submission' ? event.annotatorId : event.criteria.annotatorId) === annotatorId)
+      .map(event => (event.type === 'submission' ? { ...event, invalidated: voided.has(event.eventId) } : event))
+      .reverse()
+
+    return NextResponse.json({ events: entries })
+  } catch (error: any) {
+    console.error('Error reading the audit log:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to read the audit log' },
+      { status: error instanceof StorageError ? error.status : 500 }
+    )
+  }
+}
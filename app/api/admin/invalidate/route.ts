@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createInvalidationEvent, parseInvalidationCriteria, selectSubmissionsToInvalidate } from '@/lib/audit'
+import { flaggedAnnotators } from '@/lib/gold'
+import { collectRowStatuses } from '@/lib/rows'
+import { getAnnotationStore, RoundCell, StorageError } from '@/lib/storage'
+import { studyConfig } from '@/lib/study-config'
+
+/**
+ * Voids every submission by `annotatorId` and/or within `from`–`to` and empties their rounds,
+ * so the rows go back into the batch pool. The submissions stay in the audit log.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const parsed = parseInvalidationCriteria(body)
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : ''
+
+    const store = getAnnotationStore()
+    const submissions = selectSubmissionsToInvalidate(await store.listAuditEvents(), parsed.criteria)
+    if (submissions.length === 0) {
+      return NextResponse.json({ invalidated: 0, rows: [] })
+    }
+
+    // Logged before the cells are cleared, so the log also explains a partially applied invalidation
+    const invalidation = createInvalidationEvent(parsed.criteria, submissions, reason)
+    await store.appendAuditEvents([invalidation])
+
+    const cells: RoundCell[] = []
+    submissions.forEach(({ rowId, round }) => {
+      if (!cells.some(cell => cell.id === rowId && cell.round === round)) cells.push({ id: rowId, round })
+    })
+    await store.clearRounds(cells)
+
+    // Recompute which round each affected row needs now that its cells are empty again
+    const [sheet, leases] = await Promise.all([store.readSheet(), store.listLeases()])
+    const statuses = collectRowStatuses(sheet, studyConfig, flaggedAnnotators(leases))
+    const rows = cells.map(({ id, round }) => ({
+      id,
+      clearedRound: round,
+      needsAnnotatorRound: statuses.find(status => status.id === id)?.needsAnnotatorRound ?? null,
+    }))
+
+    return NextResponse.json({ invalidated: submissions.length, eventId: invalidation.eventId, rows })
+  } catch (error: any) {
+    console.error('Error invalidating submissions:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to invalidate submissions' },
+      { status: error instanceof StorageError ? error.status : 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { computeProgressReport, ThroughputBucket } from '@/lib/analytics/progress'
+import { computeTelemetryReport } from '@/lib/analytics/telemetry'
+import { collectRankings } from '@/lib/annotations'
+import { computeGoldStats, flaggedAnnotators } from '@/lib/gold'
+import { collectRowStatuses } from '@/lib/rows'
+import { getAnnotationStore, StorageError } from '@/lib/storage'
+import { studyConfig } from '@/lib/study-config'
+
+export const dynamic = 'force-dynamic'
+
+// Study progress for the admin dashboard; ?bucket=hour|day sets the throughput resolution
+export async function GET(request: NextRequest) {
+  try {
+    const bucket = (request.nextUrl.searchParams.get('bucket') || 'day') as ThroughputBucket
+    if (bucket !== 'hour' && bucket !== 'day') {
+      return NextResponse.json({ error: 'bucket must be hour or day' }, { status: 400 })
+    }
+
+    const store = getAnnotationStore()
+    const [sheet, leases] = await Promise.all([store.readSheet(), store.listLeases()])
+    // Same eligibility as next-batch: flagged annotators' rankings don't count towards a row's rounds
+    const statuses = collectRowStatuses(sheet, studyConfig, flaggedAnnotators(leases))
+    const rankings = collectRankings(sheet)
+    const report = computeProgressReport(
+      statuses,
+      leases,
+      rankings,
+      computeGoldStats(leases),
+      computeTelemetryReport(rankings),
+      { bucket }
+    )
+
+    return NextResponse.json(report)
+  } catch (error: any) {
+    console.error('Error computing study progress:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to compute study progress' },
+      { status: error instanceof StorageError ? error.status : 500 }
+    )
+  }
+}
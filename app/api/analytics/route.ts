@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { computeAgreementReport } from '@/lib/analytics/agreement'
+import { collectRankings } from '@/lib/annotations'
+import { computeGoldStats } from '@/lib/gold'
+import { getAnnotationStore, StorageError } from '@/lib/storage'
+import { studyConfig } from '@/lib/study-config'
+
+export const dynamic = 'force-dynamic'
+
+// Inter-annotator agreement over the collected Annotator_N_Rankings, leaving out annotators flagged by gold checks
+export async function GET(request: NextRequest) {
+  try {
+    const lowestParam = Number(request.nextUrl.searchParams.get('lowest'))
+    const lowest = Number.isInteger(lowestParam) && lowestParam > 0 ? lowestParam : 10
+
+    const store = getAnnotationStore()
+    const [sheet, leases] = await Promise.all([store.readSheet(), store.listLeases()])
+    const gold = computeGoldStats(leases)
+    const flagged = new Set(gold.filter(stats => stats.flagged).map(stats => stats.annotatorId))
+    const report = computeAgreementReport(collectRankings(sheet, studyConfig, flagged), { lowest })
+
+    return NextResponse.json({ ...report, gold })
+  } catch (error: any) {
+    console.error('Error computing agreement:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to compute agreement' },
+      { status: error instanceof StorageError ? error.status : 500 }
+    )
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { collectRankings } from '@/lib/annotations'
+import { flaggedAnnotators } from '@/lib/gold'
+import { buildAnnotationRecords, ExportFormat, PairMode, toJsonl, toLongCsv, toPreferencePairs } from '@/lib/export'
+import { getAnnotationStore, StorageError } from '@/lib/storage'
+import { studyConfig } from '@/lib/study-config'
+
+export const dynamic = 'force-dynamic'
+
+const FORMATS: ExportFormat[] = ['jsonl', 'csv', 'pairs']
+const PAIR_MODES: PairMode[] = ['all', 'top-bottom']
+
+/**
+ * Downloads the collected annotations.
+ * ?format=jsonl|csv|pairs&minAgreement=0.5&pairs=all|top-bottom&rounds=1,2
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const format = (params.get('format') || 'jsonl') as ExportFormat
+    const pairMode = (params.get('pairs') || 'all') as PairMode
+    const minAgreementParam = params.get('minAgreement')
+    const minAgreement = minAgreementParam ? Number(minAgreementParam) : undefined
+    const roundsParam = params.get('rounds')
+    const rounds = roundsParam ? roundsParam.split(',').map(Number) : null
+
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json({ error: `format must be one of ${FORMATS.join(', ')}` }, { status: 400 })
+    }
+    if (!PAIR_MODES.includes(pairMode)) {
+      return NextResponse.json({ error: `pairs must be one of ${PAIR_MODES.join(', ')}` }, { status: 400 })
+    }
+    if (minAgreement !== undefined && !Number.isFinite(minAgreement)) {
+      return NextResponse.json({ error: 'minAgreement must be a number' }, { status: 400 })
+    }
+
+    const store = getAnnotationStore()
+    const [sheet, leases] = await Promise.all([store.readSheet(), store.listLeases()])
+    const rows = collectRankings(sheet, studyConfig, flaggedAnnotators(leases)).map(row => ({
+      ...row,
+      rankings: rounds ? row.rankings.filter(entry => rounds.includes(entry.round)) : row.rankings,
+    }))
+    const records = buildAnnotationRecords(rows, { minAgreement })
+
+    let body: string
+    let contentType: string
+    let filename: string
+    if (format === 'csv') {
+      body = toLongCsv(records)
+      contentType = 'text/csv; charset=utf-8'
+      filename = 'annotations-long.csv'
+    } else if (format === 'pairs') {
+      body = toJsonl(toPreferencePairs(records, pairMode))
+      contentType = 'application/x-ndjson; charset=utf-8'
+      filename = `preference-pairs-${pairMode}.jsonl`
+    } else {
+      body = toJsonl(records)
+      contentType = 'application/x-ndjson; charset=utf-8'
+      filename = 'annotations.jsonl'
+    }
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error: any) {
+    console.error('Error exporting annotations:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to export annotations' },
+      { status: error instanceof StorageError ? error.status : 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { computeLeaderboard } from '@/lib/analytics/leaderboard'
+import { collectRankings } from '@/lib/annotations'
+import { flaggedAnnotators } from '@/lib/gold'
+import { getAnnotationStore, StorageError } from '@/lib/storage'
+import { studyConfig } from '@/lib/study-config'
+
+export const dynamic = 'force-dynamic'
+
+const MAX_BOOTSTRAP = 5000
+
+function parseOptionalInteger(value: string | null) {
+  if (value === null || value.trim() === '') return undefined
+  const parsed = Number(value)
+  return Number.isInteger(parsed) ? parsed : undefined
+}
+
+// System leaderboard, filterable with ?rounds=1,2&idMin=0&idMax=9&bootstrap=1000&seed=1
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const roundsParam = params.get('rounds')
+    const rounds = roundsParam
+      ? roundsParam.split(',').map(Number).filter(round => Number.isInteger(round))
+      : undefined
+    const bootstrap = Math.min(Math.max(parseOptionalInteger(params.get('bootstrap')) ?? 1000, 0), MAX_BOOTSTRAP)
+
+    const store = getAnnotationStore()
+    const [sheet, leases] = await Promise.all([store.readSheet(), store.listLeases()])
+    const leaderboard = computeLeaderboard(collectRankings(sheet, studyConfig, flaggedAnnotators(leases)), studyConfig.systems, {
+      rounds,
+      idMin: parseOptionalInteger(params.get('idMin')),
+      idMax: parseOptionalInteger(params.get('idMax')),
+      bootstrap,
+      seed: parseOptionalInteger(params.get('seed')),
+    })
+
+    return NextResponse.json(leaderboard)
+  } catch (error: any) {
+    console.error('Error computing leaderboard:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to compute leaderboard' },
+      { status: error instanceof StorageError ? error.status : 500 }
+    )
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { computeMqmReport } from '@/lib/analytics/mqm'
+import { collectRankings } from '@/lib/annotations'
+import { flaggedAnnotators } from '@/lib/gold'
+import { getAnnotationStore, StorageError } from '@/lib/storage'
+import { studyConfig } from '@/lib/study-config'
+
+export const dynamic = 'force-dynamic'
+
+// MQM error counts and scores per system from the annotators' error spans
+export async function GET() {
+  try {
+    const store = getAnnotationStore()
+    const [sheet, leases] = await Promise.all([store.readSheet(), store.listLeases()])
+    const report = computeMqmReport(collectRankings(sheet, studyConfig, flaggedAnnotators(leases)), studyConfig.systems)
+
+    return NextResponse.json(report)
+  } catch (error: any) {
+    console.error('Error computing MQM scores:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to compute MQM scores' },
+      { status: error instanceof StorageError ? error.status : 500 }
+    )
+  }
+}
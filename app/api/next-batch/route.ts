@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createBatchToken, verifyBatchToken } from '@/lib/batch-token'
+import { collectGoldRows, flaggedAnnotators, mixInGoldRows, pickGoldRows } from '@/lib/gold'
+import { parseLanguagePairs } from '@/lib/languages'
+import { createBatchLease, isLeaseActive } from '@/lib/leases'
+import { createRng, hashSeed, newSeed } from '@/lib/random'
+import { buildTranslationRows, presentationOrder, selectBatch, toTranslationRow, TranslationRow, withShuffledTranslations } from '@/lib/rows'
+import { BatchLease, getAnnotationStore, StorageError } from '@/lib/storage'
+import { studyConfig } from '@/lib/study-config'
+
+const MAX_LEASE_ATTEMPTS = 3
+
+// A served row with the starting order its lease fixes (see `presentationOrder`)
+function inLeaseOrder(row: TranslationRow, lease: BatchLease) {
+  return withShuffledTranslations(row, presentationOrder({ id: row.id, rowIndex: row.originalRowIndex || 0 }, lease))
+}
+
+/**
+ * The lease's rows in the order they are served, with its gold rows mixed in by the lease's seed,
+ * so a reload shows them in the same positions. Rows missing from `rows` are skipped.
+ */
+function inServedOrder(lease: BatchLease, rows: TranslationRow[]) {
+  const byId = new Map(rows.map(row => [row.id, row]))
+  const ids = mixInGoldRows(lease.rowIds, lease.goldRowIds || [], createRng(lease.seed ?? hashSeed(lease.leaseId)))
+  return ids.flatMap(id => {
+    const row = byId.get(id)
+    return row ? [inLeaseOrder(row, lease)] : []
+  })
+}
+
+/**
+ * Reserves a batch of rows for one annotator in the lowest open round.
+ * An annotator who already holds an active lease gets the same rows back.
+ * Hidden gold rows are mixed into every batch when the study enables them.
+ * The response carries a signed `batchToken` that /api/update-sheet requires for the submission.
+ * Annotator IDs are not secret, so an existing lease's token is only returned to a caller that
+ * sends that token back as `batchToken`; anyone else gets the rows without one.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object', code: 'invalid_request' },
+        { status: 400 }
+      )
+    }
+    const annotatorId = typeof body.annotatorId === 'string' ? body.annotatorId.trim() : ''
+    // Language pairs the annotator qualifies for, e.g. ["en:ar"]; the study's default when omitted
+    const languagePairs = body.languagePairs === undefined
+      ? studyConfig.defaultLanguagePairs
+      : parseLanguagePairs(body.languagePairs)
+
+    if (!annotatorId) {
+      return NextResponse.json(
+        { error: 'annotatorId is required', code: 'invalid_request' },
+        { status: 400 }
+      )
+    }
+
+    const store = getAnnotationStore()
+    const sheet = await store.readSheet()
+    const goldRows = collectGoldRows(sheet)
+    const hideGoldAnswer = ({ best, worst, ...row }: (typeof goldRows)[number]) => row
+
+    for (let attempt = 0; attempt < MAX_LEASE_ATTEMPTS; attempt++) {
+      const now = new Date()
+      const leases = await store.listLeases()
+      const activeLeases = leases.filter(lease => isLeaseActive(lease, now))
+      // Rankings by annotators who failed their gold rows don't count towards a row's rounds
+      const allRows = buildTranslationRows(sheet, studyConfig, flaggedAnnotators(leases))
+
+      const existing = activeLeases.find(lease => lease.annotatorId === annotatorId)
+      if (existing) {
+        const rows = allRows.filter(row => existing.rowIds.includes(row.id) && row.needsAnnotatorRound === existing.round)
+        const pendingGold = goldRows.filter(gold =>
+          existing.goldRowIds?.includes(gold.id) && existing.goldResults?.[gold.id] === undefined
+        )
+        const verified = verifyBatchToken(body.batchToken, now)
+        const ownsLease = 'claims' in verified && verified.claims.leaseId === existing.leaseId
+        return NextResponse.json({
+          leaseId: existing.leaseId,
+          ...(ownsLease ? { batchToken: createBatchToken(existing) } : {}),
+          round: existing.round,
+          expiresAt: existing.expiresAt,
+          rows: inServedOrder(existing, [...rows.map(toTranslationRow), ...pendingGold.map(hideGoldAnswer)]),
+        })
+      }
+
+      // Stored on the lease, so the picked rows and gold rows can be reproduced
+      const seed = newSeed()
+      const random = createRng(seed)
+      const batch = selectBatch(
+        allRows,
+        (id, round) => activeLeases.some(lease => lease.round === round && lease.rowIds.includes(id)),
+        languagePairs,
+        studyConfig,
+        random
+      )
+
+      if (!batch) {
+        console.warn('All eligible rows are fully annotated or leased. No examples available.')
+        return NextResponse.json({ rows: [] })
+      }
+
+      const seenGold = leases
+        .filter(lease => lease.annotatorId === annotatorId)
+        .flatMap(lease => lease.goldRowIds || [])
+      const batchGold = pickGoldRows(goldRows, seenGold, studyConfig.gold.perBatch, batch.languagePair, random)
+
+      const lease = createBatchLease(annotatorId, batch.round, batch.rows.map(row => row.id), now)
+      lease.seed = seed
+      if (batchGold.length > 0) {
+        lease.goldRowIds = batchGold.map(gold => gold.id)
+      }
+
+      // Another request may have reserved some of these rows since we listed the leases
+      if (await store.createLease(lease)) {
+        return NextResponse.json({
+          leaseId: lease.leaseId,
+          batchToken: createBatchToken(lease),
+          round: lease.round,
+          expiresAt: lease.expiresAt,
+          rows: inServedOrder(lease, [...batch.rows, ...batchGold.map(hideGoldAnswer)]),
+        })
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Could not reserve a batch, please try again', code: 'reserve_conflict' },
+      { status: 409 }
+    )
+  } catch (error: any) {
+    console.error('Error assigning batch:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to assign batch', code: error instanceof StorageError ? 'storage_unavailable' : 'server_error' },
+      { status: error instanceof StorageError ? error.status : 500 }
+    )
+  }
+}
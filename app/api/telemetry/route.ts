@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { computeTelemetryReport } from '@/lib/analytics/telemetry'
+import { collectRankings } from '@/lib/annotations'
+import { getAnnotationStore, StorageError } from '@/lib/storage'
+import { studyConfig } from '@/lib/study-config'
+
+export const dynamic = 'force-dynamic'
+
+function parseSeconds(value: string | null, fallback: number) {
+  if (value === null || value.trim() === '') return fallback
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+}
+
+// Time-on-task report; ?minDwell=15&minComment=5 override the study's speed thresholds (seconds)
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const thresholds = {
+      minDwellSeconds: parseSeconds(params.get('minDwell'), studyConfig.speedThresholds.minDwellSeconds),
+      minCommentSeconds: parseSeconds(params.get('minComment'), studyConfig.speedThresholds.minCommentSeconds),
+    }
+
+    const sheet = await getAnnotationStore().readSheet()
+    const report = computeTelemetryReport(collectRankings(sheet), thresholds)
+
+    return NextResponse.json(report)
+  } catch (error: any) {
+    console.error('Error computing telemetry report:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to compute telemetry report' },
+      { status: error instanceof StorageError ? error.status : 500 }
+    )
+  }
+}
@@ -1,186 +1,210 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { appendAuditEventsWithRetry, submissionEvents } from '@/lib/audit'
+import { checkSubmissionAgainstToken, verifyBatchToken } from '@/lib/batch-token'
+import { checkSubmissionAgainstLease, isLeaseActive } from '@/lib/leases'
+import { parseParticipant } from '@/lib/prolific'
+import { collectRankings } from '@/lib/annotations'
+import { collectGoldRows, passesGold } from '@/lib/gold'
+import { singletonGroups } from '@/lib/ranking'
+import { presentationOrder } from '@/lib/rows'
+import { getAnnotationStore, StorageError } from '@/lib/storage'
+import { studyConfig } from '@/lib/study-config'
+import {
+  findStoredSubmission,
+  IDEMPOTENCY_KEY_HEADER,
+  isValidIdempotencyKey,
+  sentenceIdempotencyKey,
+  SentenceResult,
+  SubmissionResponse,
+  toSentenceResults,
+} from '@/lib/submission'
+import { validateAnnotations } from '@/lib/validation'
 
-const DEFAULT_GOOGLE_SHEET_ID = '1C28DqXCkz8DqCeuCF5ibNqiq50l4K4XKp5TnjIGPYbU'
-const GOOGLE_SHEET_ID =
-  process.env.GOOGLE_SHEET_ID ||
-  process.env.NEXT_PUBLIC_GOOGLE_SHEET_ID ||
-  DEFAULT_GOOGLE_SHEET_ID
-const GOOGLE_SHEET_GID = process.env.GOOGLE_SHEET_GID || process.env.NEXT_PUBLIC_GOOGLE_SHEET_GID || '0'
-const GOOGLE_APPS_SCRIPT_URL = process.env.GOOGLE_APPS_SCRIPT_URL
-
-interface AnnotationUpdate {
-  id: string
-  rowIndex: number
-  rankings: string[] // Ordered list of column names (e.g., ["ca", "no", "ad", "an", "bo", "pa", "op"])
-  comment?: string // Optional comment explaining the rankings
-}
+export async function POST(request: NextRequest) {
+  try {
+    // A malformed body is the caller's mistake, not a server error
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object', code: 'invalid_request' },
+        { status: 400 }
+      )
+    }
+    const payload: unknown[] = body.annotations
 
-// Helper to parse CSV line properly (handles quoted fields)
-function parseCSVLine(line: string): string[] {
-  const result: string[] = []
-  let current = ''
-  let inQuotes = false
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i]
-    
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"'
-        i++ // Skip next quote
-      } else {
-        inQuotes = !inQuotes
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim())
-      current = ''
-    } else {
-      current += char
+    if (!payload || !Array.isArray(payload) || payload.length === 0) {
+      return NextResponse.json(
+        { error: 'Invalid annotations data', code: 'invalid_request' },
+        { status: 400 }
+      )
     }
-  }
-  result.push(current.trim())
-  return result
-}
 
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json()
-    const annotations: AnnotationUpdate[] = body.annotations
+    const maxAnnotations = studyConfig.batchSize + studyConfig.gold.perBatch
+    if (payload.length > maxAnnotations) {
+      return NextResponse.json(
+        { error: `At most ${maxAnnotations} annotations can be submitted at once`, code: 'too_many_annotations' },
+        { status: 400 }
+      )
+    }
 
-    if (!annotations || !Array.isArray(annotations) || annotations.length === 0) {
+    // The signed token from /api/next-batch decides which annotator, rows and round may be written
+    if (typeof body.batchToken !== 'string') {
       return NextResponse.json(
-        { error: 'Invalid annotations data' },
+        { error: 'batchToken is required', code: 'invalid_batch_token' },
         { status: 400 }
       )
     }
+    const token = verifyBatchToken(body.batchToken)
+    if ('error' in token) {
+      return NextResponse.json(
+        { error: token.error, code: token.expired ? 'batch_token_expired' : 'invalid_batch_token' },
+        { status: 403 }
+      )
+    }
+    const { claims } = token
 
-    // If Google Apps Script URL is configured, use it to update the sheet
-    if (GOOGLE_APPS_SCRIPT_URL) {
-      try {
-        const response = await fetch(GOOGLE_APPS_SCRIPT_URL, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ annotations }),
-        })
-
-        // Get response text for better error messages
-        const responseText = await response.text()
-        
-        // Check if response is HTML (indicates authorization page or error)
-        if (responseText.trim().startsWith('<!DOCTYPE') || responseText.trim().startsWith('<html')) {
-          return NextResponse.json(
-            { 
-              error: 'Google Apps Script authorization required',
-              details: 'The script needs to be authorized. Please visit the Google Apps Script Web App URL in your browser and authorize it.',
-              hint: 'Visit the GOOGLE_APPS_SCRIPT_URL in a browser, authorize the script, then try again.'
-            },
-            { status: 403 }
-          )
-        }
-        
-        // Try to parse as JSON
-        let result;
-        try {
-          result = JSON.parse(responseText)
-        } catch (parseError) {
-          // If response is not JSON, return helpful error
-          return NextResponse.json(
-            { 
-              error: 'Invalid response from Google Apps Script',
-              details: `Expected JSON but received: ${responseText.substring(0, 500)}`,
-              hint: 'The Google Apps Script may need to be redeployed or authorized. Check the script URL and authorization status.'
-            },
-            { status: 500 }
-          )
-        }
-        
-        if (!response.ok) {
-          let errorMessage = `Google Apps Script returned status ${response.status}`
-          if (result.error) {
-            errorMessage = result.error
-          } else if (result.details) {
-            errorMessage = result.details
-          }
-          throw new Error(errorMessage)
-        }
-
-        if (result.error) {
-          throw new Error(result.error)
-        }
-
-        return NextResponse.json({
-          success: true,
-          message: 'Annotations successfully updated in Google Sheet',
-          result
-        })
-      } catch (error: any) {
-        console.error('Error calling Google Apps Script:', error)
-        return NextResponse.json(
-          { error: `Failed to update sheet: ${error.message}` },
-          { status: 500 }
-        )
-      }
+    const submissionKey = request.headers.get(IDEMPOTENCY_KEY_HEADER)
+    if (submissionKey !== null && !isValidIdempotencyKey(submissionKey)) {
+      return NextResponse.json(
+        { error: `${IDEMPOTENCY_KEY_HEADER} must be 8-64 letters, digits, "-" or "_"`, code: 'invalid_request' },
+        { status: 400 }
+      )
     }
 
-    // Fallback: Prepare updates (for when Google Apps Script is not configured)
-    const csvUrl = `https://docs.google.com/spreadsheets/d/${GOOGLE_SHEET_ID}/export?format=csv&gid=${GOOGLE_SHEET_GID}`
-    const csvResponse = await fetch(csvUrl)
-    
-    if (!csvResponse.ok) {
-      throw new Error('Failed to fetch Google Sheet')
+    const store = getAnnotationStore()
+    const sheet = await store.readSheet()
+
+    // Check each ranking against the row's actual translation columns before anything is stored
+    const sheetRows = collectRankings(sheet)
+    const goldRows = collectGoldRows(sheet)
+    const validation = validateAnnotations(payload, [
+      ...sheetRows,
+      ...goldRows.map(gold => ({
+        id: gold.id,
+        rowIndex: gold.originalRowIndex || 0,
+        systems: gold.translationColumns,
+        translations: Object.fromEntries(gold.translationColumns.map((code, index) => [code, gold.translations[index]])),
+      })),
+    ])
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Some annotations are invalid', code: 'invalid_annotations', errors: validation.errors },
+        { status: 400 }
+      )
+    }
+    const annotations = validation.annotations.map(ann => ({
+      ...ann,
+      idempotencyKey: submissionKey ? sentenceIdempotencyKey(submissionKey, ann.id) : undefined,
+    }))
+
+    // Gold rows are scored here and never written; the annotator sees them stored like any other sentence
+    const goldById = new Map(goldRows.map(gold => [gold.id, gold]))
+    const regular = annotations.filter(ann => !goldById.has(ann.id))
+    const goldAnnotations = annotations.filter(ann => goldById.has(ann.id))
+    const goldStored = goldAnnotations.map((ann): SentenceResult => ({ id: ann.id, status: 'stored' }))
+    const inSubmissionOrder = (results: SentenceResult[]) =>
+      annotations.map(ann => results.find(result => result.id === ann.id)).filter((result): result is SentenceResult => Boolean(result))
+
+    // Each row is accepted once per token; repeating a stored submission with the same idempotency key is a replay, not a new write
+    const replayed = regular.map(ann => findStoredSubmission(sheet, ann))
+    const submittedWithToken = (id: string) => sheetRows.some(row =>
+      row.id === id && row.rankings.some(entry => entry.round === claims.round && entry.annotatorId === claims.annotatorId)
+    )
+    const lease = await store.getLease(claims.leaseId)
+    const tokenError = checkSubmissionAgainstToken(
+      claims,
+      lease,
+      annotations.map(ann => ann.id),
+      id => submittedWithToken(id) && !regular.some((ann, index) => ann.id === id && replayed[index] !== null)
+    )
+    if (tokenError || !lease) {
+      return NextResponse.json(
+        { error: tokenError, code: 'batch_mismatch' },
+        { status: 403 }
+      )
     }
 
-    const csvText = await csvResponse.text()
-    const lines = csvText.split('\n').filter(line => line.trim())
-    
-    if (lines.length < 2) {
-      throw new Error('Sheet appears to be empty')
+    // A replay of a submission that was fully stored (e.g. a network retry after the lease completed) gets the same answer again
+    if (submissionKey && replayed.every(result => result !== null)) {
+      const response: SubmissionResponse = {
+        success: true,
+        message: `Annotations already saved to ${store.name} store`,
+        results: inSubmissionOrder([...replayed.filter((result): result is SentenceResult => result !== null), ...goldStored]),
+      }
+      return NextResponse.json(response)
     }
 
-    const headerLine = lines[0]
-    const headers = parseCSVLine(headerLine)
+    const now = new Date()
+    const activeLeases = (await store.listLeases()).filter(other => isLeaseActive(other, now))
+    const leaseError = checkSubmissionAgainstLease(lease, claims.annotatorId, annotations.map(ann => ann.id), activeLeases, now)
 
-    // Find column indices
-    const idColIndex = headers.findIndex(h => h.toLowerCase() === 'id')
-    if (idColIndex === -1) {
-      throw new Error('ID column not found in sheet')
+    if (leaseError) {
+      return NextResponse.json(
+        { error: leaseError, code: 'lease_conflict' },
+        { status: 409 }
+      )
     }
 
-    // Build row number map
-    const idToRowMap: { [key: string]: number } = {}
-    for (let i = 1; i < lines.length; i++) {
-      const row = parseCSVLine(lines[i])
-      if (row[idColIndex]) {
-        const id = row[idColIndex].replace(/^"|"$/g, '').trim()
-        if (id) {
-          idToRowMap[id] = i + 1 // 1-indexed for Google Sheets
-        }
-      }
+    // Only a gold row's first answer is scored; a resubmission is reported as stored again
+    const newGold = goldAnnotations.filter(ann => lease.goldResults?.[ann.id] === undefined)
+    if (newGold.length > 0) {
+      await store.recordGoldResults(lease.leaseId, Object.fromEntries(newGold.map(ann => [
+        ann.id,
+        passesGold(goldById.get(ann.id)!, ann.tieGroups || singletonGroups(ann.rankings)),
+      ])))
     }
 
-    // Prepare updates for reference
-    const updates = annotations.map(ann => {
-      const rowNum = idToRowMap[ann.id] || ann.rowIndex
-      return {
-        id: ann.id,
-        rowNum,
-        rankings: ann.rankings.slice(0, 7)
+    const participant = parseParticipant(body.participant)
+    const written = regular.map(ann => ({
+      ...ann,
+      round: lease.round,
+      annotatorId: lease.annotatorId,
+      participant,
+      ...presentationOrder({ id: ann.id, rowIndex: ann.rowIndex }, lease),
+    }))
+    const updates = written.length > 0 ? await store.writeAnnotations(written) : []
+
+    // The rankings are stored at this point, so a failing audit log is reported with the results instead of as an error
+    const auditError = await appendAuditEventsWithRetry(store, submissionEvents(written, updates, lease.leaseId))
+    const results = inSubmissionOrder([
+      ...toSentenceResults(regular, updates),
+      ...goldStored.map(result => ({ ...result, round: lease.round })),
+    ])
+    const failed = results.filter(result => result.status === 'failed')
+
+    // The batch is done once every leased row is stored, counting rows saved by an earlier (partial) submission
+    const storedIds = new Set(results.filter(result => result.status === 'stored').map(result => result.id))
+    const storedBefore = (id: string) =>
+      sheetRows.some(row => row.id === id && row.rankings.some(entry => entry.round === lease.round))
+    if (lease.rowIds.every(id => storedIds.has(id) || storedBefore(id))) {
+      // Leaving gold rows out must not dodge the check: a gold row never answered counts as failed
+      const answeredGold = new Set([...Object.keys(lease.goldResults || {}), ...newGold.map(ann => ann.id)])
+      const skippedGold = (lease.goldRowIds || []).filter(id => !answeredGold.has(id))
+      if (skippedGold.length > 0) {
+        await store.recordGoldResults(lease.leaseId, Object.fromEntries(skippedGold.map(id => [id, false])))
       }
-    })
-
-    return NextResponse.json({
-      success: false,
-      message: 'Google Apps Script URL not configured',
-      updates: updates,
-      note: 'To enable sheet updates, set GOOGLE_APPS_SCRIPT_URL environment variable. See README for setup instructions.'
-    })
+      await store.completeLease(lease.leaseId, new Date().toISOString())
+    }
 
+    const response: SubmissionResponse = {
+      success: failed.length === 0,
+      message: failed.length === 0
+        ? `Annotations saved to ${store.name} store`
+        : `${failed.length} of ${results.length} annotations could not be saved to ${store.name} store`,
+      results,
+      ...(auditError ? { auditError: `Could not add the stored annotations to the audit log: ${auditError}` } : {}),
+    }
+    return NextResponse.json(response)
   } catch (error: any) {
     console.error('Error updating sheet:', error)
+    if (error instanceof StorageError) {
+      return NextResponse.json(
+        { error: error.message, code: 'storage_unavailable', details: error.details, hint: error.hint },
+        { status: error.status }
+      )
+    }
     return NextResponse.json(
-      { error: error.message || 'Failed to process annotations' },
+      { error: error.message || 'Failed to process annotations', code: 'server_error' },
       { status: 500 }
     )
   }
@@ -0,0 +1,169 @@
+'use client'
+
+import { useState } from 'react'
+import type { TextRange } from '@/lib/diff'
+import { textDirection } from '@/lib/languages'
+import type { Translator } from '@/lib/messages'
+import { ERROR_CATEGORIES, ERROR_SEVERITIES, ErrorCategory, ErrorSeverity, ErrorSpan } from '@/lib/mqm'
+import type { TranslationRow } from '@/lib/rows'
+
+interface ErrorSpanEditorProps {
+  row: TranslationRow
+  order: string[] // System codes in the order the translations are listed
+  spans: ErrorSpan[]
+  onChange: (spans: ErrorSpan[]) => void
+  t: Translator
+}
+
+interface Selection {
+  system: string
+  start: number
+  end: number
+}
+
+const translationOf = (row: TranslationRow, code: string) => row.translations[row.translationColumns.indexOf(code)] ?? ''
+
+const severityRank = (severity: ErrorSeverity) => ERROR_SEVERITIES.indexOf(severity)
+
+const describeSpan = (t: Translator, span: ErrorSpan) =>
+  t('errorDescription', { category: t(`category_${span.category}`), severity: t(`severity_${span.severity}`) })
+
+/**
+ * Translation text with its error spans highlighted; overlapping spans show the worst severity.
+ * `diffRanges` additionally underlines words that differ from the other candidates.
+ */
+export function HighlightedText({ text, spans, diffRanges = [], t }: { text: string; spans: ErrorSpan[]; diffRanges?: TextRange[]; t: Translator }) {
+  const boundaries = Array.from(new Set([
+    0,
+    text.length,
+    ...spans.flatMap(span => [span.start, span.end]),
+    ...diffRanges.flatMap(range => [range.start, range.end]),
+  ]))
+    .filter(offset => offset <= text.length)
+    .sort((a, b) => a - b)
+
+  return (
+    <>
+      {boundaries.map((offset, index) => {
+        const next = boundaries[index + 1]
+        const omissions = spans.filter(span => span.start === offset && span.end === offset)
+        const covering = next === undefined ? [] : spans.filter(span => span.start <= offset && span.end >= next && span.start < span.end)
+        const worst = covering.reduce<ErrorSpan | null>(
+          (found, span) => !found || severityRank(span.severity) > severityRank(found.severity) ? span : found,
+          null
+        )
+        const differs = next !== undefined && diffRanges.some(range => range.start <= offset && range.end >= next)
+        const className = [worst ? `error-mark severity-${worst.severity}` : '', differs ? 'diff-mark' : ''].filter(Boolean).join(' ')
+        return (
+          <span key={offset}>
+            {omissions.map((span, i) => (
+              <span key={i} className={`omission-mark severity-${span.severity}`} title={describeSpan(t, span)} />
+            ))}
+            {next !== undefined && (
+              className
+                ? <mark className={className} title={worst ? covering.map(span => describeSpan(t, span)).join(', ') : undefined}>
+                  {text.slice(offset, next)}
+                </mark>
+                : text.slice(offset, next)
+            )}
+          </span>
+        )
+      })}
+    </>
+  )
+}
+
+// Character offsets of the current text selection inside `container`, or null when it lies elsewhere
+function selectionOffsets(container: HTMLElement) {
+  const selection = window.getSelection()
+  if (!selection || selection.rangeCount === 0) return null
+  const range = selection.getRangeAt(0)
+  if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return null
+
+  const before = document.createRange()
+  before.selectNodeContents(container)
+  before.setEnd(range.startContainer, range.startOffset)
+  const start = before.toString().length
+  return { start, end: start + range.toString().length }
+}
+
+// Select text inside a translation, pick a category and severity, and add it as an error span
+export default function ErrorSpanEditor({ row, order, spans, onChange, t }: ErrorSpanEditorProps) {
+  const [selection, setSelection] = useState<Selection | null>(null)
+  const [category, setCategory] = useState<ErrorCategory>('accuracy')
+  const [severity, setSeverity] = useState<ErrorSeverity>('minor')
+
+  // An empty selection can only mark where something was left out
+  const isOmissionPoint = selection !== null && selection.start === selection.end
+  const effectiveCategory = isOmissionPoint ? 'omission' : category
+
+  const addSpan = () => {
+    if (!selection) return
+    onChange([...spans, { ...selection, category: effectiveCategory, severity }])
+    setSelection(null)
+    window.getSelection()?.removeAllRanges()
+  }
+
+  return (
+    <div className="error-spans">
+      <p style={{ color: '#666', marginBottom: '10px' }}>
+        {t('errorSpansHelp')}
+      </p>
+      {order.map((code, index) => {
+        const text = translationOf(row, code)
+        const systemSpans = spans.filter(span => span.system === code)
+        return (
+          <div key={code} className="error-spans-item">
+            <span className="rank-badge">{index + 1}</span>
+            <div
+              className={`error-spans-text ${selection?.system === code ? 'selecting' : ''}`}
+              lang={row.targetLang}
+              dir={textDirection(row.targetLang)}
+              onMouseUp={(e) => {
+                const offsets = selectionOffsets(e.currentTarget)
+                setSelection(offsets ? { system: code, ...offsets } : null)
+              }}
+            >
+              <HighlightedText text={text} spans={systemSpans} t={t} />
+            </div>
+            {systemSpans.length > 0 && (
+              <ul className="error-spans-list">
+                {systemSpans.map(span => (
+                  <li key={spans.indexOf(span)}>
+                    <span className={`error-mark severity-${span.severity}`}>
+                      {span.start === span.end ? '‸' : text.slice(span.start, span.end)}
+                    </span>
+                    {' '}{t(`category_${span.category}`)}, {t(`severity_${span.severity}`)}
+                    <button
+                      type="button"
+                      className="error-spans-remove"
+                      onClick={() => onChange(spans.filter(other => other !== span))}
+                      title={t('removeError')}
+                    >
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )
+      })}
+      <div className="error-spans-form">
+        <select value={effectiveCategory} disabled={isOmissionPoint} onChange={(e) => setCategory(e.target.value as ErrorCategory)}>
+          {ERROR_CATEGORIES.map(option => <option key={option} value={option}>{t(`category_${option}`)}</option>)}
+        </select>
+        <select value={severity} onChange={(e) => setSeverity(e.target.value as ErrorSeverity)}>
+          {ERROR_SEVERITIES.map(option => <option key={option} value={option}>{t(`severity_${option}`)}</option>)}
+        </select>
+        <button type="button" className="btn" onClick={addSpan} disabled={!selection}>
+          {selection
+            ? isOmissionPoint
+              ? t('markOmission', { number: order.indexOf(selection.system) + 1 })
+              : t('addError', { number: order.indexOf(selection.system) + 1 })
+            : t('selectTextForError')}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+'use client'
+
+import type { ReactNode } from 'react'
+import { textDirection } from '@/lib/languages'
+import type { Translator } from '@/lib/messages'
+import { nextPair, PairOutcome, PairwiseState } from '@/lib/pairwise'
+import type { TranslationRow } from '@/lib/rows'
+
+interface PairwiseComparisonProps {
+  row: TranslationRow
+  state: PairwiseState
+  onJudge: (outcome: PairOutcome) => void
+  onRestart: () => void
+  allowTies: boolean // Offer "about the same"; without ties every pair needs a winner
+  t: Translator
+  renderScore?: (code: string) => ReactNode
+}
+
+const translationOf = (row: TranslationRow, code: string) => row.translations[row.translationColumns.indexOf(code)] ?? ''
+
+// Shows one pair at a time until the ranking is complete, then the resulting order
+export default function PairwiseComparison({ row, state, onJudge, onRestart, allowTies, t, renderScore }: PairwiseComparisonProps) {
+  const pair = nextPair(state)
+
+  if (!pair) {
+    let rank = 1
+    return (
+      <div>
+        <ul className="translations-list">
+          {state.groups.map(group => {
+            const groupRank = rank
+            rank += group.length
+            return group.map(code => (
+              <li key={code} className="translation-item" style={{ cursor: 'default' }}>
+                <span className="rank-badge">{groupRank}</span>
+                <span className="translation-text" lang={row.targetLang} dir={textDirection(row.targetLang)}>
+                  {translationOf(row, code)}
+                </span>
+                {renderScore?.(code)}
+              </li>
+            ))
+          })}
+        </ul>
+        <button type="button" className="btn" onClick={onRestart} style={{ marginTop: '10px' }}>
+          {t('compareAgain')}
+        </button>
+      </div>
+    )
+  }
+
+  const [left, right] = pair
+  return (
+    <div>
+      <p style={{ color: '#666', marginBottom: '10px' }}>
+        {t('comparisonPrompt', { number: state.judgments.length + 1 })}
+      </p>
+      <div className="pair-grid">
+        <div className="pair-option" lang={row.targetLang} dir={textDirection(row.targetLang)}>{translationOf(row, left)}</div>
+        <div className="pair-option" lang={row.targetLang} dir={textDirection(row.targetLang)}>{translationOf(row, right)}</div>
+      </div>
+      <div className="pair-actions">
+        <button type="button" className="btn btn-primary" onClick={() => onJudge('left')}>
+          {t('leftBetter')}
+        </button>
+        {allowTies && (
+          <button type="button" className="btn" onClick={() => onJudge('tie')}>
+            {t('aboutTheSame')}
+          </button>
+        )}
+        <button type="button" className="btn btn-primary" onClick={() => onJudge('right')}>
+          {t('rightBetter')}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { Estimate, Leaderboard } from '@/lib/analytics/leaderboard'
+import { annotatorRounds } from '@/lib/study-config'
+
+const formatNumber = (value: number | null, digits = 3) => (value === null ? '–' : value.toFixed(digits))
+
+function EstimateCell({ estimate, digits = 3 }: { estimate: Estimate; digits?: number }) {
+  return (
+    <td className="numeric">
+      {formatNumber(estimate.value, digits)}
+      {estimate.low !== null && estimate.high !== null && (
+        <span style={{ color: '#888', fontSize: '0.85rem' }}>
+          {' '}[{formatNumber(estimate.low, digits)}, {formatNumber(estimate.high, digits)}]
+        </span>
+      )}
+    </td>
+  )
+}
+
+export default function LeaderboardPage() {
+  const [leaderboard, setLeaderboard] = useState<Leaderboard | null>(null)
+  const [rounds, setRounds] = useState<number[]>(annotatorRounds())
+  const [idMin, setIdMin] = useState('')
+  const [idMax, setIdMax] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadLeaderboard = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams({ rounds: rounds.join(',') })
+      if (idMin.trim()) params.set('idMin', idMin.trim())
+      if (idMax.trim()) params.set('idMax', idMax.trim())
+
+      const response = await fetch(`/api/leaderboard?${params.toString()}`, { cache: 'no-store' })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load leaderboard')
+      }
+      setLeaderboard(result)
+    } catch (err: any) {
+      setError(err.message || 'Failed to load leaderboard')
+    } finally {
+      setLoading(false)
+    }
+  }, [rounds, idMin, idMax])
+
+  useEffect(() => {
+    loadLeaderboard()
+    // Only load once on mount; later loads happen through the Apply button
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  const toggleRound = (round: number) => {
+    setRounds(prev => (prev.includes(round) ? prev.filter(r => r !== round) : [...prev, round].sort((a, b) => a - b)))
+  }
+
+  const inputStyle = { padding: '8px', border: '2px solid #ddd', borderRadius: '6px', width: '90px', marginLeft: '8px' }
+
+  return (
+    <div className="container">
+      <div className="header">
+        <h1>System Leaderboard</h1>
+        {leaderboard && (
+          <p>
+            {leaderboard.annotations} rankings over {leaderboard.rows} sentences
+            {leaderboard.bootstrap > 0 && ` · 95% intervals from ${leaderboard.bootstrap} bootstrap resamples`}
+          </p>
+        )}
+      </div>
+
+      <div className="navigation" style={{ flexWrap: 'wrap', gap: '20px' }}>
+        <div>
+          <strong>Rounds:</strong>
+          {annotatorRounds().map(round => (
+            <label key={round} style={{ marginLeft: '12px' }}>
+              <input type="checkbox" checked={rounds.includes(round)} onChange={() => toggleRound(round)} /> {round}
+            </label>
+          ))}
+        </div>
+        <div>
+          <label>
+            <strong>ID from</strong>
+            <input type="number" value={idMin} onChange={(e) => setIdMin(e.target.value)} style={inputStyle} />
+          </label>
+          <label style={{ marginLeft: '12px' }}>
+            <strong>to</strong>
+            <input type="number" value={idMax} onChange={(e) => setIdMax(e.target.value)} style={inputStyle} />
+          </label>
+        </div>
+        <button onClick={loadLeaderboard} className="btn btn-primary" disabled={loading} type="button">
+          {loading ? 'Loading...' : 'Apply'}
+        </button>
+      </div>
+
+      {error && (
+        <div style={{ color: '#d32f2f', textAlign: 'center', marginBottom: '20px' }}>{error}</div>
+      )}
+
+      {leaderboard && (
+        <>
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>System</th>
+                <th className="numeric">Bradley–Terry (log)</th>
+                <th className="numeric">Mean rank</th>
+                <th className="numeric">Borda</th>
+                <th className="numeric">Win rate</th>
+              </tr>
+            </thead>
+            <tbody>
+              {leaderboard.entries.map(entry => (
+                <tr key={entry.system}>
+                  <td>{entry.rank}</td>
+                  <td><strong>{entry.system}</strong></td>
+                  <EstimateCell estimate={entry.bradleyTerry} />
+                  <EstimateCell estimate={entry.meanRank} digits={2} />
+                  <EstimateCell estimate={entry.borda} />
+                  <EstimateCell estimate={entry.winRate} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h3 style={{ marginBottom: '10px', color: '#333' }}>Pairwise win rate (row beats column)</h3>
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th></th>
+                {leaderboard.entries.map(entry => (
+                  <th key={entry.system} className="numeric">{entry.system}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {leaderboard.entries.map(row => (
+                <tr key={row.system}>
+                  <th>{row.system}</th>
+                  {leaderboard.entries.map(column => (
+                    <td key={column.system} className="numeric" title={`${leaderboard.comparisons[row.system][column.system]} comparisons`}>
+                      {formatNumber(leaderboard.winRates[row.system][column.system], 2)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,30 +1,98 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { DragDropContext, Droppable, Draggable, DropResult } from 'react-beautiful-dnd'
-import Papa from 'papaparse'
-
-interface TranslationRow {
-  id: string
-  sentence: string
-  translations: string[]
-  translationColumns: string[] // Column names (ad, an, bo, ca, op, pa, no) for each translation
-  rankedTranslations?: string[]
-  rankedColumnNames?: string[] // Column names in ranked order
-  originalRowIndex?: number // Store original row index for updating
+import {
+  PROLIFIC_COMPLETION_CODE,
+  PROLIFIC_SCREENOUT_CODE,
+  prolificCompletionUrl,
+  readParticipantFromSearch,
+} from '@/lib/prolific'
+import ErrorSpanEditor, { HighlightedText } from './components/ErrorSpanEditor'
+import PairwiseComparison from './components/PairwiseComparison'
+import { diffAgainstAnchor, disagreementRanges, TextRange } from '@/lib/diff'
+import { parseLanguagePairs, textDirection } from '@/lib/languages'
+import { createTranslator, formatList, MessageKey, resolveLocale, serverErrorKey, splitAtPlaceholder } from '@/lib/messages'
+import type { ErrorSpan } from '@/lib/mqm'
+import { isPairwiseComplete, PairOutcome, pairwiseRanking, PairwiseState, recordJudgment, startPairwise } from '@/lib/pairwise'
+import { groupsFromOrder, hasTies, SCORE_RANGES } from '@/lib/ranking'
+import type { TranslationRow } from '@/lib/rows'
+import { studyConfig } from '@/lib/study-config'
+import type { ParticipantInfo } from '@/lib/storage/types'
+import { IDEMPOTENCY_KEY_HEADER, SubmissionResponse } from '@/lib/submission'
+import { emptyTelemetry, ItemTelemetry, MAX_ORDER_HISTORY } from '@/lib/telemetry'
+
+const ANNOTATOR_ID_KEY = 'translation-ranker:annotator-id'
+// Token of the last batch served to this browser; sent back to prove the batch is ours after a reload
+const BATCH_TOKEN_KEY = 'translation-ranker:batch-token'
+
+// Prolific participant ID when present, otherwise a stable anonymous identity so the batch lease survives reloads
+function getAnnotatorId(participant: ParticipantInfo) {
+  if (participant.prolificPid) return participant.prolificPid
+  let annotatorId = window.localStorage.getItem(ANNOTATOR_ID_KEY)
+  if (!annotatorId) {
+    annotatorId = window.crypto.randomUUID()
+    window.localStorage.setItem(ANNOTATOR_ID_KEY, annotatorId)
+  }
+  return annotatorId
+}
+
+const DRAFT_KEY_PREFIX = 'translation-ranker:draft:'
+
+// Work in progress on one leased batch, kept in localStorage so a reload resumes where the annotator left off
+interface Draft {
+  submissionKey: string // Idempotency key reused by every submission of this batch
+  orders: { [key: string]: string[] } // id -> system codes in the annotator's current order
+  comments: { [key: string]: string }
+  tiedWithAbove: { [key: string]: { [code: string]: boolean } }
+  scores: { [key: string]: { [code: string]: number } }
+  savedIds: { [key: string]: boolean }
+  telemetry: { [key: string]: ItemTelemetry }
+  pairwise: { [key: string]: PairwiseState }
+  errorSpans: { [key: string]: ErrorSpan[] }
+}
+
+// Returns the stored draft for this lease and drops drafts left over from earlier batches
+function loadDraft(leaseId: string): Draft | null {
+  let draft: Draft | null = null
+  for (let i = window.localStorage.length - 1; i >= 0; i--) {
+    const key = window.localStorage.key(i)
+    if (!key || !key.startsWith(DRAFT_KEY_PREFIX)) continue
+    if (key !== DRAFT_KEY_PREFIX + leaseId) {
+      window.localStorage.removeItem(key)
+      continue
+    }
+    try {
+      draft = JSON.parse(window.localStorage.getItem(key) || 'null')
+    } catch {
+      window.localStorage.removeItem(key)
+    }
+  }
+  return draft
 }
 
-interface TranslationRowWithNeeds extends TranslationRow {
-  needsAnnotatorRound: 1 | 2 | 3 | null
-  annotator1Complete: boolean
-  annotator2Complete: boolean
-  annotator3Complete: boolean
+// Puts the translations back in the draft's order when it still matches the row's systems
+function applyDraftOrder(row: TranslationRow, order: string[] | undefined): TranslationRow {
+  if (!order || order.length !== row.translationColumns.length || !row.translationColumns.every(code => order.includes(code))) {
+    return row
+  }
+  return {
+    ...row,
+    rankedColumnNames: order,
+    rankedTranslations: order.map(code => row.translations[row.translationColumns.indexOf(code)]),
+  }
 }
 
-const DEFAULT_GOOGLE_SHEET_ID = '1C28DqXCkz8DqCeuCF5ibNqiq50l4K4XKp5TnjIGPYbU'
-const GOOGLE_SHEET_ID = process.env.NEXT_PUBLIC_GOOGLE_SHEET_ID || DEFAULT_GOOGLE_SHEET_ID
-const GOOGLE_SHEET_GID = process.env.NEXT_PUBLIC_GOOGLE_SHEET_GID || '0'
-const GOOGLE_SHEET_URL = `https://docs.google.com/spreadsheets/d/${GOOGLE_SHEET_ID}/export?format=csv&gid=${GOOGLE_SHEET_GID}`
+// Word-level difference highlighting in the ranking list
+type DiffMode = 'off' | 'anchor' | 'disagreement'
+
+interface BatchLeaseInfo {
+  leaseId: string
+  batchToken: string
+  annotatorId: string
+  round: number
+  expiresAt: string
+}
 
 export default function Home() {
   const [data, setData] = useState<TranslationRow[]>([])
@@ -33,202 +101,118 @@ export default function Home() {
   const [submitted, setSubmitted] = useState(false)
   const [shouldRedirect, setShouldRedirect] = useState(false)
   const [comments, setComments] = useState<{ [key: string]: string }>({}) // id -> comment
+  const [tiedWithAbove, setTiedWithAbove] = useState<{ [key: string]: { [code: string]: boolean } }>({}) // id -> system -> tied with the item above
+  const [scores, setScores] = useState<{ [key: string]: { [code: string]: number } }>({}) // id -> system -> score
   const [error, setError] = useState<string | null>(null)
   const [showIntro, setShowIntro] = useState(true)
+  const [lease, setLease] = useState<BatchLeaseInfo | null>(null)
+  const [participant, setParticipant] = useState<ParticipantInfo>({})
+  const [savedIds, setSavedIds] = useState<{ [key: string]: boolean }>({}) // id -> stored by an earlier submission
+  const [failedIds, setFailedIds] = useState<{ [key: string]: string }>({}) // id -> why the last submission failed
+  const [submissionKey, setSubmissionKey] = useState<string | null>(null)
+  const [telemetry, setTelemetry] = useState<{ [key: string]: ItemTelemetry }>({}) // id -> interaction telemetry
+  const [pairwise, setPairwise] = useState<{ [key: string]: PairwiseState }>({}) // id -> comparison progress in pairwise mode
+  const [errorSpans, setErrorSpans] = useState<{ [key: string]: ErrorSpan[] }>({}) // id -> MQM error spans
+  const [diffMode, setDiffMode] = useState<DiffMode>('off')
+  const [anchors, setAnchors] = useState<{ [key: string]: string }>({}) // id -> system the others are compared to
+  const [locale, setLocale] = useState(studyConfig.locale)
+  const visibleSince = useRef<{ [key: string]: number }>({}) // id -> when the card came on screen
+  const commentFocusedAt = useRef<{ [key: string]: number }>({}) // id -> when the comment box got focus
+
+  const t = useMemo(() => createTranslator(locale), [locale])
+
+  // API errors carry a `code` the catalog translates; the server's English `error` is only a fallback
+  const serverMessage = useCallback((body: { code?: string; error?: string }, fallback: MessageKey) => {
+    const key = serverErrorKey(body.code)
+    return key ? t(key) : body.error || t(fallback)
+  }, [t])
+
+  // ?locale=es overrides the study's locale; read after mount so the server render matches
+  useEffect(() => {
+    const resolved = resolveLocale(new URLSearchParams(window.location.search).get('locale'), studyConfig.locale)
+    setLocale(resolved)
+    document.documentElement.lang = resolved
+  }, [])
 
-  const PROLIFIC_COMPLETION_URL = 'https://app.prolific.com/submissions/complete?cc=C1HEEFFM'
+  const PROLIFIC_COMPLETION_URL = prolificCompletionUrl(PROLIFIC_COMPLETION_CODE)
+  const PROLIFIC_SCREENOUT_URL = PROLIFIC_SCREENOUT_CODE ? prolificCompletionUrl(PROLIFIC_SCREENOUT_CODE) : null
 
   const loadData = useCallback(async () => {
     try {
       setLoading(true)
       setError(null)
 
-      const response = await fetch(GOOGLE_SHEET_URL)
-      if (!response.ok) {
-        throw new Error('Failed to fetch Google Sheet')
-      }
-
-      const csvText = await response.text()
-
-      const parsed = Papa.parse<Record<string, string>>(csvText, {
-        header: true,
-        skipEmptyLines: true,
-      })
-
-      if (parsed.errors && parsed.errors.length > 0) {
-        console.warn('CSV parse warnings:', parsed.errors.slice(0, 3))
-      }
-
-      const rows = (parsed.data as Record<string, string>[]).filter(row => row && Object.keys(row).length > 0)
-      const headers = parsed.meta.fields?.filter((field): field is string => Boolean(field && field.trim())) || []
-
-      if (headers.length === 0) {
-        throw new Error('No columns found in sheet data')
-      }
-
-      const normalizeHeader = (value: string) => value.trim().toLowerCase()
-
-      const findField = (variants: string[]) => {
-        const normalizedVariants = variants.map(v => v.trim().toLowerCase())
-        return headers.find(header => normalizedVariants.includes(normalizeHeader(header))) || null
-      }
-
-      const idField = findField(['id'])
-      const sentenceField = findField(['sentence'])
-
-      if (!idField || !sentenceField) {
-        throw new Error('Required columns (id, sentence) not found')
-      }
-
-      const translationOrder = ['ad', 'an', 'bo', 'ca', 'op', 'pa', 'no']
-      const translationFields = translationOrder
-        .map(code => {
-          const field = headers.find(header => normalizeHeader(header) === code)
-          return field ? { field, code } : null
-        })
-        .filter((entry): entry is { field: string; code: string } => Boolean(entry))
-
-      if (translationFields.length === 0) {
-        throw new Error('Translation columns not found in sheet')
-      }
+      const landingParticipant = readParticipantFromSearch(window.location.search)
+      setParticipant(landingParticipant)
 
-      const annotatorRankFields = [1, 2, 3].map(num =>
-        findField([`annotator_${num}_rankings`, `annotator ${num} rankings`, `annotator_${num}`, `annotator ${num}`])
-      )
-      const annotatorCommentFields = [1, 2, 3].map(num =>
-        findField([`annotator_${num}_comments`, `annotator ${num} comments`, `annotator_${num}_comment`, `annotator ${num} comment`])
-      )
-
-      console.log('Translation columns discovered:', translationFields.map(t => t.field))
-      console.log('Annotator ranking fields:', annotatorRankFields)
-      console.log('Annotator comment fields:', annotatorCommentFields)
-
-      const getCellValue = (row: Record<string, string>, field: string | null | undefined) => {
-        if (!field) return ''
-        const raw = row[field]
-        if (raw === undefined || raw === null) return ''
-        return String(raw).trim()
-      }
-
-      const allRows: TranslationRowWithNeeds[] = []
-
-      rows.forEach((row, index) => {
-        const id = getCellValue(row, idField)
-        const sentence = getCellValue(row, sentenceField)
-
-        if (!id || !sentence) {
-          return
-        }
-
-        const numericIdMatch = id.match(/\d+/)
-        const numericId = numericIdMatch ? parseInt(numericIdMatch[0], 10) : null
-
-        if (numericId === null || Number.isNaN(numericId) || numericId < 0 || numericId > 9) {
-          console.log('Skipping row outside ID range 0-9:', id)
-          return
-        }
-
-        const translationPairs = translationFields
-          .map(({ field, code }) => {
-            const value = getCellValue(row, field)
-            if (!value) return null
-            return { value, code }
-          })
-          .filter((entry): entry is { value: string; code: string } => Boolean(entry))
-
-        if (translationPairs.length === 0) {
-          return
-        }
-
-        const translations = translationPairs.map(pair => pair.value)
-        const translationColumns = translationPairs.map(pair => pair.code)
-
-        const annotatorRanks = annotatorRankFields.map(field => getCellValue(row, field))
-        const annotatorRankFilled = annotatorRanks.map(value => value.length > 0)
-
-        const hasAllAnnotatorData = annotatorRankFilled.every(Boolean)
-        if (hasAllAnnotatorData) {
-          console.log('Skipping row with all annotator ranking columns filled:', id)
-          return
-        }
-
-        const annotator1RankFilled = annotatorRankFilled[0] || false
-        const annotator2RankFilled = annotatorRankFilled[1] || false
-        const annotator3RankFilled = annotatorRankFilled[2] || false
-
-        let needsAnnotatorRound: 1 | 2 | 3 | null = null
-        if (!annotator1RankFilled) {
-          needsAnnotatorRound = 1
-        } else if (!annotator2RankFilled) {
-          needsAnnotatorRound = 2
-        } else if (!annotator3RankFilled) {
-          needsAnnotatorRound = 3
-        }
-
-        if (needsAnnotatorRound === null) {
-          console.log('Skipping fully annotated row:', id)
-          return
-        }
-
-        // Randomize the initial order of translations and column names
-        const shuffledIndices = Array.from({ length: translations.length }, (_, idx) => idx).sort(() => Math.random() - 0.5)
-        const shuffledTranslations = shuffledIndices.map(idx => translations[idx])
-        const shuffledColumnNames = shuffledIndices.map(idx => translationColumns[idx])
-
-        allRows.push({
-          id,
-          sentence,
-          translations,
-          translationColumns,
-          rankedTranslations: shuffledTranslations,
-          rankedColumnNames: shuffledColumnNames,
-          originalRowIndex: index + 2, // account for header row in Google Sheets
-          needsAnnotatorRound,
-          annotator1Complete: annotator1RankFilled,
-          annotator2Complete: annotator2RankFilled,
-          annotator3Complete: annotator3RankFilled,
-        })
-
-        console.log('Row added for consideration:', {
-          id,
-          annotator1RankFilled,
-          annotator2RankFilled,
-          annotator3RankFilled,
-          needsAnnotatorRound,
-        })
+      const annotatorId = getAnnotatorId(landingParticipant)
+      // Language pairs the annotator qualifies for, e.g. ?pairs=en:ar,en:es
+      const pairsParam = new URLSearchParams(window.location.search).get('pairs')
+      const response = await fetch('/api/next-batch', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          annotatorId,
+          languagePairs: pairsParam === null ? undefined : parseLanguagePairs(pairsParam),
+          batchToken: window.localStorage.getItem(BATCH_TOKEN_KEY) || undefined,
+        }),
       })
+      const batch = await response.json()
 
-      // Prioritize rows that need annotation for the lowest available round
-      let candidateRows = allRows.filter(row => !row.annotator1Complete)
-      if (candidateRows.length === 0) {
-        candidateRows = allRows.filter(row => row.annotator1Complete && !row.annotator2Complete)
-      }
-      if (candidateRows.length === 0) {
-        candidateRows = allRows.filter(row => row.annotator1Complete && row.annotator2Complete && !row.annotator3Complete)
+      if (!response.ok) {
+        throw new Error(serverMessage(batch, 'errorLoadSentences'))
       }
 
-      if (candidateRows.length === 0) {
-        console.warn('All eligible rows (IDs 0-49) are fully annotated. No examples available.')
+      if (!batch.leaseId || batch.rows.length === 0) {
+        console.warn('All eligible rows are fully annotated. No examples available.')
         setData([])
+        setLease(null)
         setLoading(false)
         return
       }
 
-      const firstCandidate = candidateRows[0]
-      console.log(`Found ${candidateRows.length} eligible rows needing annotation (round ${firstCandidate?.needsAnnotatorRound || 'unknown'})`)
+      // An existing batch is only handed back with its token to the browser it was first served to
+      if (!batch.batchToken) {
+        throw new Error(t('errorBatchOpenElsewhere'))
+      }
+      window.localStorage.setItem(BATCH_TOKEN_KEY, batch.batchToken)
+
+      console.log(`Reserved ${batch.rows.length} rows for annotator round ${batch.round} until ${batch.expiresAt}`)
 
-      // Select up to 5 random rows from the prioritized candidate set
-      const shuffled = [...candidateRows].sort(() => Math.random() - 0.5)
-      const selectedRows = shuffled.slice(0, 5)
-      const cleanedRows = selectedRows.map(({ needsAnnotatorRound, ...row }) => row)
+      // The server hands back the same lease after a reload, so an existing draft can be restored
+      const draft = loadDraft(batch.leaseId)
+      if (draft) {
+        console.log(`Restoring draft for batch ${batch.leaseId}`)
+      }
 
-      setData(cleanedRows)
+      setLease({ leaseId: batch.leaseId, batchToken: batch.batchToken, annotatorId, round: batch.round, expiresAt: batch.expiresAt })
+      setSubmissionKey(draft?.submissionKey || window.crypto.randomUUID())
+      setComments(draft?.comments || {})
+      setTiedWithAbove(draft?.tiedWithAbove || {})
+      setScores(draft?.scores || {})
+      setErrorSpans(draft?.errorSpans || {})
+      setSavedIds(draft?.savedIds || {})
+      setFailedIds({})
+      const rows = (batch.rows as TranslationRow[]).map(row => applyDraftOrder(row, draft?.orders[row.id]))
+      setTelemetry(Object.fromEntries(rows.map(row => [
+        row.id,
+        draft?.telemetry?.[row.id] || emptyTelemetry(row.rankedColumnNames || row.translationColumns),
+      ])))
+      setPairwise(studyConfig.taskMode === 'pairwise'
+        ? Object.fromEntries(rows.map(row => [
+          row.id,
+          draft?.pairwise?.[row.id] || startPairwise(row.rankedColumnNames || row.translationColumns),
+        ]))
+        : {})
+      setData(rows)
       setLoading(false)
     } catch (err: any) {
-      setError(err.message || 'Failed to load data')
+      setError(err.message || t('errorLoadData'))
       setLoading(false)
     }
-  }, [])
+  }, [t, serverMessage])
 
   useEffect(() => {
     if (!showIntro) {
@@ -236,6 +220,60 @@ export default function Home() {
     }
   }, [showIntro, loadData])
 
+  useEffect(() => {
+    if (!lease || !submissionKey || submitted) return
+    const draft: Draft = {
+      submissionKey,
+      orders: Object.fromEntries(data.map(row => [row.id, row.rankedColumnNames || row.translationColumns])),
+      comments,
+      tiedWithAbove,
+      scores,
+      savedIds,
+      telemetry,
+      pairwise,
+      errorSpans,
+    }
+    window.localStorage.setItem(DRAFT_KEY_PREFIX + lease.leaseId, JSON.stringify(draft))
+  }, [lease, submissionKey, submitted, data, comments, tiedWithAbove, scores, savedIds, telemetry, pairwise, errorSpans])
+
+  const addTelemetryTime = (id: string, field: 'dwellMs' | 'commentEditMs', ms: number) => {
+    setTelemetry(prev => prev[id] ? { ...prev, [id]: { ...prev[id], [field]: prev[id][field] + ms } } : prev)
+  }
+
+  // Dwell time: how long each sentence card is at least partly on screen
+  const rowIdsKey = data.map(row => row.id).join(',')
+  useEffect(() => {
+    if (!rowIdsKey) return
+    const observer = new IntersectionObserver(entries => {
+      const now = Date.now()
+      entries.forEach(entry => {
+        const id = (entry.target as HTMLElement).dataset.rowId
+        if (!id) return
+        if (entry.isIntersecting) {
+          visibleSince.current[id] = visibleSince.current[id] ?? now
+        } else if (visibleSince.current[id] !== undefined) {
+          const since = visibleSince.current[id]
+          delete visibleSince.current[id]
+          setTelemetry(prev => prev[id] ? { ...prev, [id]: { ...prev[id], dwellMs: prev[id].dwellMs + now - since } } : prev)
+        }
+      })
+    }, { threshold: 0.3 })
+    document.querySelectorAll<HTMLElement>('[data-row-id]').forEach(element => observer.observe(element))
+    return () => observer.disconnect()
+  }, [rowIdsKey])
+
+  // Telemetry including time still running (card on screen, comment box focused)
+  const currentTelemetry = (id: string): ItemTelemetry | undefined => {
+    const entry = telemetry[id]
+    if (!entry) return undefined
+    const now = Date.now()
+    return {
+      ...entry,
+      dwellMs: entry.dwellMs + (visibleSince.current[id] !== undefined ? now - visibleSince.current[id] : 0),
+      commentEditMs: entry.commentEditMs + (commentFocusedAt.current[id] !== undefined ? now - commentFocusedAt.current[id] : 0),
+    }
+  }
+
   const startAnnotation = () => {
     setShowIntro(false)
   }
@@ -260,22 +298,108 @@ export default function Home() {
       currentItem.rankedTranslations = translations
       currentItem.rankedColumnNames = columnNames
       setData(newData)
+      setTelemetry(prev => prev[currentItem.id] ? {
+        ...prev,
+        [currentItem.id]: {
+          ...prev[currentItem.id],
+          dragCount: prev[currentItem.id].dragCount + 1,
+          orderHistory: [...prev[currentItem.id].orderHistory, columnNames].slice(-MAX_ORDER_HISTORY),
+        },
+      } : prev)
+    }
+  }
+
+  const judgePair = (rowIndex: number, outcome: PairOutcome) => {
+    const row = data[rowIndex]
+    const state = recordJudgment(pairwise[row.id], outcome)
+    setPairwise(prev => ({ ...prev, [row.id]: state }))
+    if (isPairwiseComplete(state)) {
+      // The finished order becomes the row's ranking, exactly as if it had been dragged into place
+      const order = pairwiseRanking(state)
+      setData(prev => prev.map(other => other.id === row.id
+        ? { ...other, rankedColumnNames: order, rankedTranslations: order.map(code => other.translations[other.translationColumns.indexOf(code)]) }
+        : other))
+    }
+  }
+
+  // Starts the comparisons over in the order the translations were first shown
+  const restartPairwise = (row: TranslationRow) => {
+    setPairwise(prev => ({ ...prev, [row.id]: startPairwise(telemetry[row.id]?.initialOrder || row.translationColumns) }))
+  }
+
+  const toggleTie = (id: string, code: string) => {
+    setTiedWithAbove(prev => ({ ...prev, [id]: { ...prev[id], [code]: !prev[id]?.[code] } }))
+  }
+
+  const setScore = (id: string, code: string, value: string) => {
+    setScores(prev => {
+      const rowScores = { ...prev[id] }
+      if (value === '') delete rowScores[code]
+      else rowScores[code] = Number(value)
+      return { ...prev, [id]: rowScores }
+    })
+  }
+
+  const renderScoreInput = (id: string, code: string) => {
+    if (studyConfig.scoreScale === 'none') return null
+    const range = SCORE_RANGES[studyConfig.scoreScale]
+    return (
+      <input
+        type="number"
+        className="score-input"
+        min={range.min}
+        max={range.max}
+        step={1}
+        placeholder={t('scorePlaceholder')}
+        value={scores[id]?.[code] ?? ''}
+        onChange={(e) => setScore(id, code, e.target.value)}
+        title={t('scoreRange', { min: range.min, max: range.max })}
+      />
+    )
+  }
+
+  // The anchor defaults to the translation first shown at the top
+  const anchorOf = (row: TranslationRow) =>
+    anchors[row.id] || telemetry[row.id]?.initialOrder[0] || row.translationColumns[0]
+
+  // system -> ranges of words to highlight for the current diff mode
+  const diffRangesFor = (row: TranslationRow): { [code: string]: TextRange[] } => {
+    const textOf = (code: string) => row.translations[row.translationColumns.indexOf(code)] ?? ''
+    if (diffMode === 'anchor') {
+      const anchor = anchorOf(row)
+      return Object.fromEntries(row.translationColumns.map(code => [code, code === anchor ? [] : diffAgainstAnchor(textOf(anchor), textOf(code))]))
     }
+    if (diffMode === 'disagreement') {
+      const ranges = disagreementRanges(row.translationColumns.map(textOf))
+      return Object.fromEntries(row.translationColumns.map((code, index) => [code, ranges[index]]))
+    }
+    return {}
   }
 
+  const rankGroups = (row: TranslationRow) =>
+    groupsFromOrder(row.rankedColumnNames || row.translationColumns, studyConfig.allowTies ? tiedWithAbove[row.id] : {})
+
+  // Reordering or marking a tie both count as having ranked the sentence
+  const hasReranked = (row: TranslationRow) =>
+    studyConfig.taskMode === 'pairwise' ? Boolean(pairwise[row.id] && isPairwiseComplete(pairwise[row.id])) : Boolean(row.rankedColumnNames && row.translationColumns &&
+      JSON.stringify(row.rankedColumnNames) !== JSON.stringify(row.translationColumns)) ||
+    hasTies(rankGroups(row))
+
+  const hasRequiredComment = (id: string) =>
+    !studyConfig.requireComments || Boolean(comments[id] && comments[id].trim().length > 0)
+
+  const hasRequiredScores = (row: TranslationRow) =>
+    studyConfig.scoreScale === 'none' || row.translationColumns.every(code => scores[row.id]?.[code] !== undefined)
+
   // Check if all sentences have been interacted with
   const checkAllInteractions = () => {
     if (data.length === 0) return false
 
     return data.every(row => {
-      // Check if rankings have been changed from original order
-      const hasReranked = row.rankedColumnNames && row.translationColumns && 
-        JSON.stringify(row.rankedColumnNames) !== JSON.stringify(row.translationColumns)
-      
-      // Check if comment has been entered
-      const hasComment = comments[row.id] && comments[row.id].trim().length > 0
+      // Check if comment has been entered (when the study requires one)
+      const hasComment = hasRequiredComment(row.id)
       
-      return hasReranked && hasComment
+      return hasReranked(row) && hasComment && hasRequiredScores(row)
     })
   }
 
@@ -291,37 +415,25 @@ export default function Home() {
     }
     
     if (data.length === 0) {
-      alert('No data to submit')
+      alert(t('alertNoData'))
       return
     }
 
     // Check if all sentences have been interacted with
     if (!canSubmit) {
-      const missingInteractions = data.filter(row => {
-        const hasReranked = row.rankedColumnNames && row.translationColumns && 
-          JSON.stringify(row.rankedColumnNames) !== JSON.stringify(row.translationColumns)
-        const hasComment = comments[row.id] && comments[row.id].trim().length > 0
-        return !hasReranked || !hasComment
-      })
+      const missingReranks = data.filter(row => !hasReranked(row))
+      const missingComments = data.filter(row => !hasRequiredComment(row.id))
+      const missingScores = data.filter(row => !hasRequiredScores(row))
       
-      const missingReranks = missingInteractions.filter(row => {
-        const hasReranked = row.rankedColumnNames && row.translationColumns && 
-          JSON.stringify(row.rankedColumnNames) !== JSON.stringify(row.translationColumns)
-        return !hasReranked
-      })
-      const missingComments = missingInteractions.filter(row => {
-        const hasComment = comments[row.id] && comments[row.id].trim().length > 0
-        return !hasComment
-      })
-      
-      let message = 'Please complete all interactions before submitting:\n\n'
-      if (missingReranks.length > 0) {
-        message += `- Reorder rankings for ${missingReranks.length} sentence(s)\n`
-      }
-      if (missingComments.length > 0) {
-        message += `- Add comments for ${missingComments.length} sentence(s)\n`
-      }
-      alert(message)
+      const missing: [MessageKey, number][] = [
+        [studyConfig.taskMode === 'pairwise' ? 'alertMissingComparisons' : 'alertMissingReranks', missingReranks.length],
+        ['alertMissingComments', missingComments.length],
+        ['alertMissingScores', missingScores.length],
+      ]
+      alert([
+        `${t('alertIncomplete')}\n`,
+        ...missing.filter(([, count]) => count > 0).map(([key, count]) => t(key, { count })),
+      ].join('\n'))
       return
     }
 
@@ -331,7 +443,7 @@ export default function Home() {
     )
 
     if (!allRanked) {
-      alert('Please rank all translations before submitting')
+      alert(t('alertRankAll'))
       return
     }
 
@@ -342,12 +454,13 @@ export default function Home() {
       // Validate that we have ranked column names
       const invalidRows = data.filter(row => !row.rankedColumnNames || row.rankedColumnNames.length === 0)
       if (invalidRows.length > 0) {
-        alert(`Error: Some rows are missing column name rankings. Please refresh and try again.`)
+        alert(t('alertMissingColumns'))
         setSubmitting(false)
         return
       }
 
-      const annotations = data.map(row => {
+      // After a partial failure only the sentences that were not stored are sent again
+      const annotations = data.filter(row => !savedIds[row.id]).map(row => {
         // Ensure we're sending column names, not translations
         let rankings = row.rankedColumnNames || []
         
@@ -381,14 +494,21 @@ export default function Home() {
             rowId: row.id,
             rankings: rankings.slice(0, 2)
           })
-          throw new Error(`Row ${row.id}: Rankings appear to contain translation text instead of column names. Please refresh and try again.`)
+          throw new Error(t('errorTranslationText', { id: row.id }))
         }
         
         return {
           id: row.id,
           rowIndex: row.originalRowIndex || 0,
           rankings: rankings, // Send column names in ranked order (e.g., ["ca", "no", "ad", ...])
-          comment: comments[row.id] || '' // Include comment for this sentence
+          comment: comments[row.id] || '', // Include comment for this sentence
+          telemetry: currentTelemetry(row.id),
+          tieGroups: !studyConfig.allowTies
+            ? undefined
+            : studyConfig.taskMode === 'pairwise' ? pairwise[row.id].groups : groupsFromOrder(rankings, tiedWithAbove[row.id]),
+          pairwiseJudgments: studyConfig.taskMode === 'pairwise' ? pairwise[row.id].judgments : undefined,
+          scores: studyConfig.scoreScale !== 'none' ? scores[row.id] : undefined,
+          errorSpans: studyConfig.errorSpans ? errorSpans[row.id] || [] : undefined,
         }
       })
       
@@ -404,7 +524,7 @@ export default function Home() {
       const emptyRankings = annotations.filter(a => !a.rankings || a.rankings.length === 0)
       if (emptyRankings.length > 0) {
         console.error('ERROR: Some annotations have empty rankings:', emptyRankings)
-        alert(`Error: ${emptyRankings.length} annotation(s) have empty rankings. Please check the console for details.`)
+        alert(t('alertEmptyRankings', { count: emptyRankings.length }))
         setSubmitting(false)
         return
       }
@@ -413,17 +533,39 @@ export default function Home() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(submissionKey ? { [IDEMPOTENCY_KEY_HEADER]: submissionKey } : {}),
         },
-        body: JSON.stringify({ annotations }),
+        body: JSON.stringify({
+          batchToken: lease?.batchToken,
+          participant,
+          annotations,
+        }),
       })
 
       const result = await response.json()
 
       if (!response.ok) {
-        throw new Error(result.error || 'Failed to update Google Sheet')
+        throw new Error(serverMessage(result, 'errorSaveAnnotations'))
+      }
+
+      const { results } = result as SubmissionResponse
+      const nowSaved = { ...savedIds }
+      const nowFailed: { [key: string]: string } = {}
+      results.forEach(sentence => {
+        if (sentence.status === 'stored') nowSaved[sentence.id] = true
+        else nowFailed[sentence.id] = serverMessage(sentence, 'notSavedReason')
+      })
+      setSavedIds(nowSaved)
+      setFailedIds(nowFailed)
+
+      // Only finish once every sentence of the batch is stored
+      if (!data.every(row => nowSaved[row.id])) {
+        console.warn('Some annotations were not saved:', nowFailed)
+        return
       }
 
       // Redirect to Prolific completion URL
+      if (lease) window.localStorage.removeItem(DRAFT_KEY_PREFIX + lease.leaseId)
       setSubmitted(true)
       setShouldRedirect(true)
       
@@ -432,19 +574,23 @@ export default function Home() {
         window.location.href = PROLIFIC_COMPLETION_URL
       }, 1500)
     } catch (err: any) {
-      setError(err.message || 'Failed to submit annotations')
+      setError(err.message || t('errorSubmitAnnotations'))
     } finally {
       setSubmitting(false)
     }
   }
 
+  const [redirectBefore, redirectAfter] = splitAtPlaceholder(t('redirectFallback'), 'link')
+  const [screenoutBefore, screenoutAfter] = splitAtPlaceholder(t('screenoutPrompt'), 'link')
+  const intro = studyConfig.intro[locale] || studyConfig.intro[studyConfig.locale] || []
+
   // Show thank you message before redirect
   if (submitted && shouldRedirect) {
     return (
       <div className="container">
         <div className="header">
-          <h1>Thank You! 🎉</h1>
-          <p>Your annotations have been successfully submitted.</p>
+          <h1>{t('thankYouTitle')}</h1>
+          <p>{t('thankYouSubmitted')}</p>
         </div>
         <div style={{ 
           textAlign: 'center', 
@@ -454,10 +600,10 @@ export default function Home() {
           marginTop: '30px'
         }}>
           <div style={{ fontSize: '1.5rem', marginBottom: '20px', color: '#333' }}>
-            Redirecting you to complete the survey...
+            {t('redirecting')}
           </div>
           <div style={{ color: '#666', fontSize: '1.1rem', marginBottom: '20px' }}>
-            If you are not redirected automatically, <a href={PROLIFIC_COMPLETION_URL} style={{ color: '#667eea' }}>click here</a>.
+            {redirectBefore}<a href={PROLIFIC_COMPLETION_URL} style={{ color: '#667eea' }}>{t('redirectLink')}</a>{redirectAfter}
           </div>
         </div>
       </div>
@@ -468,22 +614,26 @@ export default function Home() {
     return (
       <div className="container">
         <div className="header">
-          <h1>Translation Ranker</h1>
+          <h1>{t('appTitle')}</h1>
         </div>
         <div style={{ padding: '30px', background: '#f8f9fa', borderRadius: '8px', lineHeight: 1.6 }}>
-          <p style={{ fontSize: '1.05rem', color: '#333', marginBottom: '20px' }}>
-            Please rate each translation according to your preference.
-          </p>
-          <p style={{ marginBottom: '30px', color: '#555' }}>
-            When you&apos;re ready, continue to see the five sentences that need annotation.
-          </p>
+          {intro.map((paragraph, index) => (
+            <p
+              key={index}
+              style={index === intro.length - 1
+                ? { marginBottom: '30px', color: '#555' }
+                : { fontSize: '1.05rem', color: '#333', marginBottom: '20px' }}
+            >
+              {paragraph}
+            </p>
+          ))}
           <button
             onClick={startAnnotation}
             className="btn btn-primary"
             style={{ fontSize: '1.1rem', padding: '12px 28px' }}
             type="button"
           >
-            I understand — start annotating
+            {t('startAnnotating')}
           </button>
         </div>
       </div>
@@ -494,11 +644,11 @@ export default function Home() {
     return (
       <div className="container">
         <div className="header">
-          <h1>Translation Ranker</h1>
-          <p>Loading data from Google Sheets...</p>
+          <h1>{t('appTitle')}</h1>
+          <p>{t('loadingSentences')}</p>
         </div>
         <div style={{ textAlign: 'center', padding: '40px' }}>
-          <div style={{ fontSize: '1.2rem', color: '#666' }}>Please wait...</div>
+          <div style={{ fontSize: '1.2rem', color: '#666' }}>{t('pleaseWait')}</div>
         </div>
       </div>
     )
@@ -508,13 +658,13 @@ export default function Home() {
     return (
       <div className="container">
         <div className="header">
-          <h1>Translation Ranker</h1>
-          <p>Error loading data</p>
+          <h1>{t('appTitle')}</h1>
+          <p>{t('loadErrorTitle')}</p>
         </div>
         <div style={{ textAlign: 'center', padding: '40px' }}>
           <div style={{ color: '#d32f2f', marginBottom: '20px' }}>{error}</div>
           <button onClick={loadData} className="btn btn-primary">
-            Try Again
+            {t('tryAgain')}
           </button>
         </div>
       </div>
@@ -524,11 +674,11 @@ export default function Home() {
   return (
     <div className="container">
       <div className="header">
-        <h1>Translation Ranker</h1>
-        <p>Rank the translations for each sentence (drag to reorder)</p>
+        <h1>{t('appTitle')}</h1>
+        <p>{t(studyConfig.taskMode === 'pairwise' ? 'subtitlePairwise' : 'subtitleRanking')}</p>
         {data.length > 0 && (
           <p style={{ fontSize: '0.9rem', color: '#666', marginTop: '10px' }}>
-            You are annotating {data.length} sentence{data.length > 1 ? 's' : ''}
+            {t('annotatingCount', { count: data.length })}
           </p>
         )}
       </div>
@@ -542,21 +692,74 @@ export default function Home() {
           marginBottom: '20px',
           textAlign: 'center'
         }}>
-          Error: {error}
+          {t('errorBanner', { message: error })}
         </div>
       )}
 
-      {data.map((item, rowIndex) => (
-        <div key={item.id} className="sentence-card" style={{ marginBottom: '30px' }}>
-          <h3>Sentence {rowIndex + 1} - ID: {item.id}</h3>
+      {data.length === 0 && (
+        <div style={{ textAlign: 'center', padding: '40px', background: '#f8f9fa', borderRadius: '8px' }}>
+          <div style={{ fontSize: '1.2rem', color: '#333', marginBottom: '15px' }}>
+            {t('noSentencesLeft')}
+          </div>
+          {PROLIFIC_SCREENOUT_URL && (
+            <div style={{ color: '#666' }}>
+              {screenoutBefore}<a href={PROLIFIC_SCREENOUT_URL} style={{ color: '#667eea' }}>{t('screenoutLink')}</a>{screenoutAfter}
+            </div>
+          )}
+        </div>
+      )}
+
+      {data.map((item, rowIndex) => {
+        const columnNames = item.rankedColumnNames || item.translationColumns
+        const diffRanges = diffRangesFor(item)
+        // Tied translations share the rank of the first one in their group (1, 1, 3, ...)
+        const displayRanks: number[] = []
+        rankGroups(item).forEach(group => {
+          const rank = displayRanks.length + 1
+          group.forEach(() => displayRanks.push(rank))
+        })
+        return (
+        <div key={item.id} className="sentence-card" data-row-id={item.id} style={{ marginBottom: '30px' }}>
+          <h3>{t('sentenceHeading', { number: rowIndex + 1, id: item.id })}</h3>
+          {savedIds[item.id] && (
+            <div className="save-status saved">{t('saved')}</div>
+          )}
+          {failedIds[item.id] && (
+            <div className="save-status failed">{t('notSaved', { reason: failedIds[item.id] })}</div>
+          )}
           <div className="original-sentence">
-            <strong>Original Sentence:</strong><br />
-            {item.sentence}
+            <strong>{t('originalSentence')}</strong>
+            <div lang={item.sourceLang} dir={textDirection(item.sourceLang)}>{item.sentence}</div>
           </div>
 
+          {studyConfig.taskMode === 'pairwise' && pairwise[item.id] ? (
+            <>
+              <h3 style={{ marginTop: '20px', marginBottom: '15px' }}>{t('compareHeading')}</h3>
+              <PairwiseComparison
+                row={item}
+                state={pairwise[item.id]}
+                onJudge={(outcome) => judgePair(rowIndex, outcome)}
+                onRestart={() => restartPairwise(item)}
+                allowTies={studyConfig.allowTies}
+                t={t}
+                renderScore={(code) => renderScoreInput(item.id, code)}
+              />
+            </>
+          ) : (
+          <>
           <h3 style={{ marginTop: '20px', marginBottom: '15px' }}>
-            Rank Translations (drag to reorder, best first):
+            {t(studyConfig.allowTies ? 'rankHeadingWithTies' : 'rankHeading')}
           </h3>
+          <div className="diff-controls">
+            <label>
+              {t('highlightDifferences')}{' '}
+              <select value={diffMode} onChange={(e) => setDiffMode(e.target.value as DiffMode)}>
+                <option value="off">{t('diffOff')}</option>
+                <option value="anchor">{t('diffAnchor')}</option>
+                <option value="disagreement">{t('diffDisagreement')}</option>
+              </select>
+            </label>
+          </div>
           
           <DragDropContext onDragEnd={(result) => onDragEnd(result, rowIndex)}>
             <Droppable droppableId={`translations-${rowIndex}`}>
@@ -579,8 +782,36 @@ export default function Home() {
                           {...provided.dragHandleProps}
                           className={`translation-item ${snapshot.isDragging ? 'dragging' : ''}`}
                         >
-                          <span className="rank-badge">{index + 1}</span>
-                          {translation}
+                          <span className="rank-badge">{displayRanks[index] ?? index + 1}</span>
+                          {studyConfig.allowTies && index > 0 && (
+                            <button
+                              type="button"
+                              className={`tie-toggle ${tiedWithAbove[item.id]?.[columnNames[index]] ? 'active' : ''}`}
+                              onClick={() => toggleTie(item.id, columnNames[index])}
+                              title={t('tieWithAbove')}
+                            >
+                              =
+                            </button>
+                          )}
+                          {diffMode === 'anchor' && (
+                            <button
+                              type="button"
+                              className={`anchor-toggle ${anchorOf(item) === columnNames[index] ? 'active' : ''}`}
+                              onClick={() => setAnchors(prev => ({ ...prev, [item.id]: columnNames[index] }))}
+                              title={t('setAnchor')}
+                            >
+                              ⚓
+                            </button>
+                          )}
+                          <span className="translation-text" lang={item.targetLang} dir={textDirection(item.targetLang)}>
+                            <HighlightedText
+                              text={translation}
+                              spans={(errorSpans[item.id] || []).filter(span => span.system === columnNames[index])}
+                              diffRanges={diffRanges[columnNames[index]]}
+                              t={t}
+                            />
+                          </span>
+                          {renderScoreInput(item.id, columnNames[index])}
                         </li>
                       )}
                     </Draggable>
@@ -590,13 +821,36 @@ export default function Home() {
               )}
             </Droppable>
           </DragDropContext>
+          </>
+          )}
+
+          {studyConfig.errorSpans && (
+            <div style={{ marginTop: '30px' }}>
+              <h3 style={{ marginBottom: '10px' }}>{t('markErrorsHeading')}</h3>
+              <ErrorSpanEditor
+                row={item}
+                order={columnNames}
+                spans={errorSpans[item.id] || []}
+                onChange={(spans) => setErrorSpans(prev => ({ ...prev, [item.id]: spans }))}
+                t={t}
+              />
+            </div>
+          )}
           
           <div style={{ marginTop: '30px' }}>
-            <h3 style={{ marginBottom: '10px' }}>Comments:</h3>
+            <h3 style={{ marginBottom: '10px' }}>{t(studyConfig.requireComments ? 'commentsHeading' : 'commentsHeadingOptional')}</h3>
             <textarea
-              placeholder="Please explain your reasoning for these rankings. What did you like or dislike about the translation options?"
+              placeholder={t('commentPlaceholder')}
               value={comments[item.id] || ''}
               onChange={(e) => setComments(prev => ({ ...prev, [item.id]: e.target.value }))}
+              onFocus={() => {
+                commentFocusedAt.current[item.id] = Date.now()
+              }}
+              onBlur={() => {
+                const focusedAt = commentFocusedAt.current[item.id]
+                delete commentFocusedAt.current[item.id]
+                if (focusedAt !== undefined) addTelemetryTime(item.id, 'commentEditMs', Date.now() - focusedAt)
+              }}
               style={{
                 width: '100%',
                 minHeight: '100px',
@@ -610,7 +864,8 @@ export default function Home() {
             />
           </div>
         </div>
-      ))}
+        )
+      })}
 
       {data.length > 0 && (
         <div className="save-section">
@@ -630,16 +885,31 @@ export default function Home() {
             disabled={submitting || submitted || !canSubmit}
             type="button"
           >
-            {submitting ? 'Submitting...' : submitted ? 'Submitted!' : 'Submit Annotations'}
+            {submitting
+              ? t('submitting')
+              : submitted
+                ? t('submitted')
+                : Object.keys(failedIds).length > 0
+                  ? t('retryUnsaved', { count: data.filter(row => !savedIds[row.id]).length })
+                  : t('submit')}
           </button>
           {!canSubmit && (
             <p style={{ marginTop: '15px', color: '#d32f2f', fontSize: '0.9rem' }}>
-              ⚠️ Please interact with all {data.length} sentences: reorder rankings and add comments for each one.
+              {t('incompleteWarning', { count: data.length, tasks: formatList(locale, [
+                t(studyConfig.taskMode === 'pairwise' ? 'taskFinishComparisons' : 'taskReorder'),
+                ...(studyConfig.scoreScale !== 'none' ? [t('taskScore')] : []),
+                ...(studyConfig.requireComments ? [t('taskComment')] : []),
+              ]) })}
+            </p>
+          )}
+          {canSubmit && Object.keys(failedIds).length > 0 && (
+            <p style={{ marginTop: '15px', color: '#d32f2f', fontSize: '0.9rem' }}>
+              {t('unsavedWarning', { count: Object.keys(failedIds).length })}
             </p>
           )}
-          {canSubmit && (
+          {canSubmit && Object.keys(failedIds).length === 0 && (
             <p style={{ marginTop: '15px', color: '#666' }}>
-              ✓ All interactions complete. Your rankings and comments will be saved to the Google Sheet.
+              {t('allComplete')}
             </p>
           )}
         </div>
@@ -1,11 +1,14 @@
 /**
  * Google Apps Script for updating Google Sheet with annotations
  * 
+ * The round rules come from lib/round-allocation.ts as the global `RoundAllocation`.
+ * Run `npm run build:apps-script` and paste build/google-apps-script.js, which contains both.
+ * 
  * Instructions:
  * 1. Open your Google Sheet
  * 2. Go to Extensions > Apps Script
  * 3. Delete any existing code
- * 4. Paste this code
+ * 4. Paste the contents of build/google-apps-script.js
  * 5. Save the project
  * 6. Click "Deploy" > "New deployment"
  * 7. Select type: "Web app"
@@ -14,6 +17,8 @@
  * 10. Click "Deploy"
  * 11. Copy the Web app URL
  * 12. Set GOOGLE_APPS_SCRIPT_URL environment variable in Vercel to this URL
+ * 13. Under Project Settings > Script Properties, add APPS_SCRIPT_SECRET with a long random value
+ *     and set the same value as the APPS_SCRIPT_SECRET environment variable in Vercel
  * 
  * IMPORTANT: After deploying, you must authorize the script:
  * - The first time you access the URL, Google will ask you to authorize
@@ -22,6 +27,11 @@
  */
 
 const SHEET_ID = '1xEvJsMgT_R0zjhKqUXrG7n6TEzFyIU3luWXoN7wVW-A';
+// The Leases and Audit layouts are shared with the Sheets API store through RoundAllocation
+const LEASES_SHEET_NAME = RoundAllocation.LEASES_SHEET_NAME;
+const LEASE_HEADERS = RoundAllocation.LEASE_HEADERS;
+const AUDIT_SHEET_NAME = RoundAllocation.AUDIT_SHEET_NAME;
+const AUDIT_HEADERS = RoundAllocation.AUDIT_HEADERS;
 
 /**
  * Helper function to create JSON response
@@ -32,6 +42,15 @@ function createJSONResponse(data) {
     .setMimeType(ContentService.MimeType.JSON);
 }
 
+/**
+ * Whether a request carries the shared secret from the APPS_SCRIPT_SECRET script property
+ * The web app is public, so every POST must prove it comes from the app; without the property nothing is accepted
+ */
+function isAuthorized(data) {
+  const secret = PropertiesService.getScriptProperties().getProperty('APPS_SCRIPT_SECRET');
+  return Boolean(secret) && typeof data.secret === 'string' && data.secret === secret;
+}
+
 /**
  * Handle GET request (for testing and authorization)
  */
@@ -63,12 +82,200 @@ function doOptions() {
   return createJSONResponse({ message: 'CORS preflight' });
 }
 
+/**
+ * Find a column by header (the existing header found by RoundAllocation, or null), appending `name` if missing
+ * Returns the 1-based column index and keeps sheetHeaders in sync
+ */
+function findOrCreateColumn(sheet, sheetHeaders, existing, name) {
+  if (existing !== null) {
+    return sheetHeaders.indexOf(existing) + 1;
+  }
+  sheetHeaders.push(name);
+  const colIndex = sheetHeaders.length;
+  sheet.getRange(1, colIndex).setValue(name);
+  return colIndex;
+}
+
+/**
+ * Get the Leases sheet, creating it with headers if needed
+ * Headers are rewritten so sheets created before new lease fields get their columns named
+ */
+function getLeasesSheet(spreadsheet) {
+  let sheet = spreadsheet.getSheetByName(LEASES_SHEET_NAME);
+  if (!sheet) {
+    sheet = spreadsheet.insertSheet(LEASES_SHEET_NAME);
+  }
+  if (sheet.getLastColumn() < LEASE_HEADERS.length) {
+    sheet.getRange(1, 1, 1, LEASE_HEADERS.length).setValues([LEASE_HEADERS]);
+  }
+  return sheet;
+}
+
+/**
+ * Read all leases as objects (rowIds and goldRowIds are stored comma-separated, goldResults as JSON)
+ */
+function readLeases(sheet) {
+  const lastRow = sheet.getLastRow();
+  if (lastRow < 2) {
+    return [];
+  }
+  const values = sheet.getRange(2, 1, lastRow - 1, LEASE_HEADERS.length).getValues();
+  return values.map(function(row) { return RoundAllocation.parseLeaseRow(row); });
+}
+
+function isLeaseActive(lease, now) {
+  return !lease.completedAt && new Date(lease.expiresAt).getTime() > now.getTime();
+}
+
+/**
+ * Handle batch lease actions (listLeases, createLease, getLease, completeLease, recordGoldResults)
+ * A script lock keeps two concurrent requests from reserving the same rows
+ */
+function handleLeaseAction(spreadsheet, data) {
+  const lock = LockService.getScriptLock();
+  lock.waitLock(30000);
+  try {
+    const sheet = getLeasesSheet(spreadsheet);
+    const leases = readLeases(sheet);
+
+    if (data.action === 'listLeases') {
+      return createJSONResponse({ success: true, leases: leases });
+    }
+
+    if (data.action === 'getLease') {
+      const found = leases.filter(function(lease) { return lease.leaseId === data.leaseId; })[0] || null;
+      return createJSONResponse({ success: true, lease: found });
+    }
+
+    if (data.action === 'createLease') {
+      const lease = data.lease;
+      const now = new Date();
+      const conflict = leases.some(function(other) {
+        return isLeaseActive(other, now) &&
+          other.round === lease.round &&
+          other.rowIds.some(function(id) { return lease.rowIds.indexOf(id) !== -1; });
+      });
+      if (conflict) {
+        return createJSONResponse({ success: true, created: false });
+      }
+      sheet.appendRow(RoundAllocation.leaseRow(lease));
+      // appendRow parses "12,345" as the number 12345 and timestamps as dates, so the row is rewritten as plain text
+      sheet.getRange(sheet.getLastRow(), 1, 1, LEASE_HEADERS.length)
+        .setNumberFormat('@')
+        .setValues([RoundAllocation.leaseRow(lease)]);
+      return createJSONResponse({ success: true, created: true });
+    }
+
+    if (data.action === 'completeLease') {
+      for (let i = 0; i < leases.length; i++) {
+        if (leases[i].leaseId === data.leaseId) {
+          sheet.getRange(i + 2, LEASE_HEADERS.indexOf('completedAt') + 1).setNumberFormat('@').setValue(data.completedAt);
+          break;
+        }
+      }
+      return createJSONResponse({ success: true });
+    }
+
+    if (data.action === 'recordGoldResults') {
+      for (let i = 0; i < leases.length; i++) {
+        if (leases[i].leaseId === data.leaseId) {
+          const merged = Object.assign({}, leases[i].goldResults || {}, data.results || {});
+          sheet.getRange(i + 2, LEASE_HEADERS.indexOf('goldResults') + 1).setValue(JSON.stringify(merged));
+          break;
+        }
+      }
+      return createJSONResponse({ success: true });
+    }
+
+    return createJSONResponse({ error: 'Unknown action: ' + data.action });
+  } finally {
+    lock.releaseLock();
+  }
+}
+
+/**
+ * Get the Audit sheet, creating it with headers if needed
+ */
+function getAuditSheet(spreadsheet) {
+  let sheet = spreadsheet.getSheetByName(AUDIT_SHEET_NAME);
+  if (!sheet) {
+    sheet = spreadsheet.insertSheet(AUDIT_SHEET_NAME);
+    sheet.getRange(1, 1, 1, AUDIT_HEADERS.length).setValues([AUDIT_HEADERS]);
+  }
+  return sheet;
+}
+
+/**
+ * Handle audit log actions (appendAuditEvents, listAuditEvents) and clearRounds
+ * The audit log is append-only; each event is read back from the JSON in its `event` column
+ * clearRounds empties every Annotator_N_* cell of the listed rounds so invalidated rows can be annotated again
+ * doPost only routes here after isAuthorized, so neither the log nor the rounds can be changed without the secret
+ */
+function handleAuditAction(spreadsheet, data) {
+  const lock = LockService.getScriptLock();
+  lock.waitLock(30000);
+  try {
+    if (data.action === 'clearRounds') {
+      const sheetName = data.sheetName || 'Sheet1';
+      const sheet = spreadsheet.getSheetByName(sheetName);
+      if (!sheet) {
+        return createJSONResponse({ error: sheetName + ' not found in spreadsheet' });
+      }
+      const headers = sheet.getRange(1, 1, 1, sheet.getLastColumn()).getValues()[0].map(h => h.toString());
+      const idColIndex = headers.indexOf(RoundAllocation.findHeader(headers, ['id'])) + 1;
+      if (idColIndex === 0) {
+        return createJSONResponse({ error: 'ID column not found in sheet headers' });
+      }
+      const idValues = sheet.getRange(1, idColIndex, sheet.getLastRow(), 1).getValues();
+      (data.cells || []).forEach(function(cell) {
+        for (let i = 1; i < idValues.length; i++) {
+          if (idValues[i][0].toString().trim() === cell.id) {
+            RoundAllocation.findRoundFields(headers, cell.round).forEach(function(field) {
+              sheet.getRange(i + 1, headers.indexOf(field) + 1).clearContent();
+            });
+            break;
+          }
+        }
+      });
+      return createJSONResponse({ success: true });
+    }
+
+    const sheet = getAuditSheet(spreadsheet);
+
+    if (data.action === 'listAuditEvents') {
+      const lastRow = sheet.getLastRow();
+      const eventColIndex = AUDIT_HEADERS.indexOf('event') + 1;
+      const values = lastRow < 2 ? [] : sheet.getRange(2, eventColIndex, lastRow - 1, 1).getValues();
+      const events = values
+        .filter(function(row) { return row[0]; })
+        .map(function(row) { return JSON.parse(row[0].toString()); });
+      return createJSONResponse({ success: true, events: events });
+    }
+
+    if (data.action === 'appendAuditEvents') {
+      const rows = (data.events || []).map(function(event) { return RoundAllocation.auditRow(event); });
+      if (rows.length > 0) {
+        sheet.getRange(sheet.getLastRow() + 1, 1, rows.length, AUDIT_HEADERS.length).setNumberFormat('@').setValues(rows);
+      }
+      return createJSONResponse({ success: true });
+    }
+
+    return createJSONResponse({ error: 'Unknown action: ' + data.action });
+  } finally {
+    lock.releaseLock();
+  }
+}
+
 /**
  * Handle POST request to update annotations
- * Each sentence needs 3 annotations (Annotator_1, Annotator_2, Annotator_3)
- * Uses the first available annotator column for each sentence
+ * Each sentence needs one annotation per round (Annotator_1, Annotator_2, ...); 3 rounds unless the request says otherwise
+ * Uses the round reserved by the batch lease when given, otherwise the first available annotator column
+ * Every request must carry the shared secret (see isAuthorized) before any action is handled
+ * Requests with an `action` field are routed to handleAuditAction or handleLeaseAction
+ * Writes hold the script lock so a retried submission sees the idempotency key stored by the first one
  */
 function doPost(e) {
+  let lock = null;
   try {
     // Parse request data
     let data;
@@ -81,11 +288,10 @@ function doPost(e) {
       });
     }
     
-    const annotations = data.annotations;
-    
-    if (!annotations || !Array.isArray(annotations)) {
+    if (!isAuthorized(data)) {
       return createJSONResponse({
-        error: 'Invalid data: annotations must be an array'
+        error: 'Unauthorized',
+        details: 'Missing or wrong APPS_SCRIPT_SECRET'
       });
     }
     
@@ -100,18 +306,38 @@ function doPost(e) {
       });
     }
     
-    const sheet = spreadsheet.getSheetByName('Sheet1');
+    if (data.action === 'appendAuditEvents' || data.action === 'listAuditEvents' || data.action === 'clearRounds') {
+      return handleAuditAction(spreadsheet, data);
+    }
+    if (data.action) {
+      return handleLeaseAction(spreadsheet, data);
+    }
+    
+    lock = LockService.getScriptLock();
+    lock.waitLock(30000);
+    
+    const annotations = data.annotations;
+    
+    if (!annotations || !Array.isArray(annotations)) {
+      return createJSONResponse({
+        error: 'Invalid data: annotations must be an array'
+      });
+    }
+    
+    // Sheet name and round numbers come from study.config.json via the API route
+    const sheetName = data.sheetName || 'Sheet1';
+    const sheet = spreadsheet.getSheetByName(sheetName);
     
     if (!sheet) {
       return createJSONResponse({
-        error: 'Sheet1 not found in spreadsheet'
+        error: sheetName + ' not found in spreadsheet'
       });
     }
     
     // Get sheet headers to find column positions
     const lastCol = sheet.getLastColumn();
-    const sheetHeaders = sheet.getRange(1, 1, 1, lastCol).getValues()[0];
-    const idColIndex = sheetHeaders.findIndex(h => h.toString().toLowerCase() === 'id') + 1;
+    const sheetHeaders = sheet.getRange(1, 1, 1, lastCol).getValues()[0].map(h => h.toString());
+    const idColIndex = sheetHeaders.indexOf(RoundAllocation.findHeader(sheetHeaders, ['id'])) + 1;
     
     if (idColIndex === 0) {
       return createJSONResponse({
@@ -119,59 +345,21 @@ function doPost(e) {
       });
     }
     
-    // Find or create Annotator columns (max 3 rounds)
-    // Each round has 2 columns: Annotator_X_Rankings and Annotator_X_Comments
-    const annotatorNumbers = [1, 2, 3];
-    const annotatorRankingColumns = {}; // e.g., {'Annotator_1_Rankings': columnIndex}
-    const annotatorCommentColumns = {}; // e.g., {'Annotator_1_Comments': columnIndex}
-    let nextColIndex = lastCol + 1;
-    
-    // Find or create ranking and comment columns for each annotator round
+    // Find or create Annotator columns (one pair per configured round)
+    // Each round has 2 columns: Annotator_X_Rankings and Annotator_X_Comments, matched with the same header variants as the app
+    const annotatorNumbers = Array.isArray(data.rounds) && data.rounds.length > 0 ? data.rounds : RoundAllocation.DEFAULT_ROUNDS;
+    const roundColumns = {}; // round -> {ranking, comment} 1-based column indexes
     for (const num of annotatorNumbers) {
-      const rankingColName = 'Annotator_' + num + '_Rankings';
-      const commentColName = 'Annotator_' + num + '_Comments';
-      
-      // Find ranking column
-      let rankingColIndex = sheetHeaders.findIndex(h => 
-        h.toString().trim().toLowerCase() === rankingColName.toLowerCase()
-      ) + 1;
-      
-      if (rankingColIndex === 0) {
-        // Create ranking column
-        rankingColIndex = nextColIndex;
-        sheet.getRange(1, rankingColIndex).setValue(rankingColName);
-        sheetHeaders.push(rankingColName);
-        nextColIndex++;
-      }
-      annotatorRankingColumns[rankingColName] = rankingColIndex;
-      
-      // Find comment column
-      let commentColIndex = sheetHeaders.findIndex(h => 
-        h.toString().trim().toLowerCase() === commentColName.toLowerCase()
-      ) + 1;
-      
-      if (commentColIndex === 0) {
-        // Create comment column
-        commentColIndex = nextColIndex;
-        sheet.getRange(1, commentColIndex).setValue(commentColName);
-        sheetHeaders.push(commentColName);
-        nextColIndex++;
-      }
-      annotatorCommentColumns[commentColName] = commentColIndex;
+      roundColumns[num] = {
+        ranking: findOrCreateColumn(sheet, sheetHeaders, RoundAllocation.findAnnotatorRankingField(sheetHeaders, num), RoundAllocation.annotatorColumnName(num, 'Rankings')),
+        comment: findOrCreateColumn(sheet, sheetHeaders, RoundAllocation.findAnnotatorCommentField(sheetHeaders, num), RoundAllocation.annotatorColumnName(num, 'Comments'))
+      };
     }
     
-    // Get all ID values to find row numbers
+    // Read every row once; new columns are beyond the data and read as empty
     const lastRow = sheet.getLastRow();
-    const idRange = sheet.getRange(1, idColIndex, lastRow, 1);
-    const idValues = idRange.getValues();
-    
-    // Get all ranking column values to check what's already filled
-    const rankingColumnValues = {};
-    for (const rankingColName in annotatorRankingColumns) {
-      const colIndex = annotatorRankingColumns[rankingColName];
-      const range = sheet.getRange(2, colIndex, lastRow - 1, 1); // Start from row 2 (skip header)
-      rankingColumnValues[rankingColName] = range.getValues();
-    }
+    const values = sheet.getRange(1, 1, lastRow, sheetHeaders.length).getValues();
+    const cellValue = (rowNum, colIndex) => (values[rowNum - 1][colIndex - 1] || '').toString();
     
     // Update rows
     const updates = [];
@@ -180,61 +368,49 @@ function doPost(e) {
       // Find row by ID
       let rowNum = -1;
       
-      for (let i = 0; i < idValues.length; i++) {
-        if (idValues[i][0] && idValues[i][0].toString().trim() === ann.id) {
+      for (let i = 1; i < values.length; i++) {
+        if (values[i][idColIndex - 1] && values[i][idColIndex - 1].toString().trim() === ann.id) {
           rowNum = i + 1;
           break;
         }
       }
       
       if (rowNum > 0) {
-        // Find which annotator round to use for this row
-        // Use the first round that doesn't have a ranking value for this row
-        let targetRound = null;
-        let targetRankingColName = null;
-        let targetRankingColIndex = null;
-        let targetCommentColName = null;
-        let targetCommentColIndex = null;
-        
-        for (const num of annotatorNumbers) {
-          const rankingColName = 'Annotator_' + num + '_Rankings';
-          const commentColName = 'Annotator_' + num + '_Comments';
-          const rankingColIndex = annotatorRankingColumns[rankingColName];
-          const commentColIndex = annotatorCommentColumns[commentColName];
-          const valueIndex = rowNum - 2; // Adjust for header row (row 1) and array index (0-based)
-          
-          if (valueIndex >= 0 && valueIndex < rankingColumnValues[rankingColName].length) {
-            const existingValue = rankingColumnValues[rankingColName][valueIndex][0];
-            
-            // Check if this cell is empty or only whitespace
-            if (!existingValue || existingValue.toString().trim() === '') {
-              targetRound = num;
-              targetRankingColName = rankingColName;
-              targetRankingColIndex = rankingColIndex;
-              targetCommentColName = commentColName;
-              targetCommentColIndex = commentColIndex;
-              break;
-            }
-          } else {
-            // Row is beyond current data, use this round
-            targetRound = num;
-            targetRankingColName = rankingColName;
-            targetRankingColIndex = rankingColIndex;
-            targetCommentColName = commentColName;
-            targetCommentColIndex = commentColIndex;
-            break;
-          }
+        // A retry of a stored submission reports the round it already used
+        const storedRound = RoundAllocation.findRoundWithKey(annotatorNumbers, num => {
+          const keyColIndex = sheetHeaders.indexOf(RoundAllocation.findHeader(sheetHeaders, [RoundAllocation.annotatorColumnName(num, 'Idempotency_Key')])) + 1;
+          return keyColIndex > 0 ? cellValue(rowNum, keyColIndex) : '';
+        }, ann.idempotencyKey);
+        if (storedRound !== null) {
+          updates.push({
+            id: ann.id,
+            row: rowNum,
+            round: storedRound,
+            success: true,
+            duplicate: true
+          });
+          continue;
         }
         
-        if (!targetRankingColName) {
-          // All 3 annotator rounds are filled for this row
+        // The leased round when given (it must still be empty), otherwise the first empty round
+        const selection = RoundAllocation.selectAnnotationRound(
+          annotatorNumbers,
+          num => RoundAllocation.isRoundFilled(cellValue(rowNum, roundColumns[num].ranking)),
+          ann.round
+        );
+        
+        if (selection.error) {
           updates.push({
             id: ann.id,
+            row: rowNum,
             success: false,
-            error: `All 3 annotator rounds are already filled for this sentence`
+            error: selection.error
           });
           continue;
         }
+        const targetRound = selection.round;
+        const targetRankingColIndex = roundColumns[targetRound].ranking;
+        const targetCommentColIndex = roundColumns[targetRound].comment;
         
         try {
           // Validate that rankings are column names, not translations
@@ -263,14 +439,24 @@ function doPost(e) {
             throw new Error('Ranking string is empty after joining. Rankings: ' + JSON.stringify(rankings));
           }
           
+          // Every round cell is written as plain text, like the Sheets API store's raw input, so IDs such as
+          // "12,345" or date-like PIDs are not converted and a comment starting with "=" is not a formula
           // Update the ranking cell
           const rankingCell = sheet.getRange(rowNum, targetRankingColIndex);
-          rankingCell.setValue(rankingString);
+          rankingCell.setNumberFormat('@').setValue(rankingString);
           
           // Update the comment cell
           const comment = ann.comment || '';
           const commentCell = sheet.getRange(rowNum, targetCommentColIndex);
-          commentCell.setValue(comment);
+          commentCell.setNumberFormat('@').setValue(comment);
+          
+          // Update extra per-round cells (e.g. Prolific IDs) as Annotator_N_<key>
+          const cells = ann.cells || {};
+          for (const key in cells) {
+            const name = RoundAllocation.annotatorColumnName(targetRound, key);
+            const cellColIndex = findOrCreateColumn(sheet, sheetHeaders, RoundAllocation.findHeader(sheetHeaders, [name]), name);
+            sheet.getRange(rowNum, cellColIndex).setNumberFormat('@').setValue(cells[key]);
+          }
           
           // Force flush to ensure write
           SpreadsheetApp.flush();
@@ -283,8 +469,8 @@ function doPost(e) {
             id: ann.id,
             row: rowNum,
             round: targetRound,
-            rankingColumn: targetRankingColName,
-            commentColumn: targetCommentColName,
+            rankingColumn: sheetHeaders[targetRankingColIndex - 1],
+            commentColumn: sheetHeaders[targetCommentColIndex - 1],
             ranking: rankingString,
             comment: comment,
             verifiedRanking: verifyRanking,
@@ -321,5 +507,9 @@ function doPost(e) {
       details: error.toString(),
       stack: error.stack
     });
+  } finally {
+    if (lock) {
+      lock.releaseLock();
+    }
   }
 }
@@ -0,0 +1,207 @@
+import type { RowRankings } from '../annotations'
+import { RankMap, rankPositions } from '../ranking'
+
+export interface PairwiseAgreement {
+  rounds: [number, number]
+  annotators: [string, string]
+  tau: number | null
+  rho: number | null
+}
+
+export interface RowAgreement {
+  id: string
+  rowIndex: number
+  annotations: number
+  pairwise: PairwiseAgreement[]
+  meanTau: number | null
+  meanRho: number | null
+  kendallW: number | null
+  consensus: string[] // Systems ordered by mean rank across annotators
+}
+
+export interface AnnotatorAgreement {
+  annotatorId: string
+  annotations: number
+  // Agreement with the consensus of the other annotators on the same rows
+  meanTauWithConsensus: number | null
+  meanRhoWithConsensus: number | null
+}
+
+export interface AgreementReport {
+  summary: {
+    rows: number
+    rowsWithAgreement: number // Rows with at least two valid rankings
+    annotations: number
+    invalidRankings: number
+    excludedRankings: number // Rankings by annotators flagged by gold checks
+    meanKendallW: number | null
+    meanTau: number | null
+    meanRho: number | null
+  }
+  rows: RowAgreement[]
+  annotators: AnnotatorAgreement[]
+  lowestAgreement: RowAgreement[]
+}
+
+export function mean(values: (number | null)[]): number | null {
+  const present = values.filter((value): value is number => value !== null && Number.isFinite(value))
+  if (present.length === 0) return null
+  return present.reduce((sum, value) => sum + value, 0) / present.length
+}
+
+// Kendall's tau-b, which stays well defined when either side has ties
+export function kendallTau(a: RankMap, b: RankMap, systems: string[]): number | null {
+  let concordant = 0
+  let discordant = 0
+  let tiesA = 0
+  let tiesB = 0
+
+  for (let i = 0; i < systems.length; i++) {
+    for (let j = i + 1; j < systems.length; j++) {
+      const da = Math.sign(a[systems[i]] - a[systems[j]])
+      const db = Math.sign(b[systems[i]] - b[systems[j]])
+      if (da === 0 && db === 0) continue
+      if (da === 0) tiesA++
+      else if (db === 0) tiesB++
+      else if (da === db) concordant++
+      else discordant++
+    }
+  }
+
+  const denominator = Math.sqrt((concordant + discordant + tiesA) * (concordant + discordant + tiesB))
+  return denominator === 0 ? null : (concordant - discordant) / denominator
+}
+
+// Spearman's rho as the Pearson correlation of the rank vectors
+export function spearmanRho(a: RankMap, b: RankMap, systems: string[]): number | null {
+  const xs = systems.map(code => a[code])
+  const ys = systems.map(code => b[code])
+  const meanX = mean(xs) ?? 0
+  const meanY = mean(ys) ?? 0
+
+  let covariance = 0
+  let varianceX = 0
+  let varianceY = 0
+  for (let i = 0; i < systems.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY)
+    varianceX += (xs[i] - meanX) ** 2
+    varianceY += (ys[i] - meanY) ** 2
+  }
+
+  const denominator = Math.sqrt(varianceX * varianceY)
+  return denominator === 0 ? null : covariance / denominator
+}
+
+// Kendall's coefficient of concordance with the standard tie correction
+export function kendallW(rankMaps: RankMap[], systems: string[]): number | null {
+  const m = rankMaps.length
+  const n = systems.length
+  if (m < 2 || n < 2) return null
+
+  const rankSums = systems.map(code => rankMaps.reduce((sum, ranks) => sum + ranks[code], 0))
+  const meanRankSum = (m * (n + 1)) / 2
+  const s = rankSums.reduce((sum, value) => sum + (value - meanRankSum) ** 2, 0)
+
+  const tieCorrection = rankMaps.reduce((total, ranks) => {
+    const groupSizes: Record<string, number> = {}
+    systems.forEach(code => {
+      groupSizes[ranks[code]] = (groupSizes[ranks[code]] || 0) + 1
+    })
+    return total + Object.values(groupSizes).reduce((sum, t) => sum + (t ** 3 - t), 0)
+  }, 0)
+
+  const denominator = m * m * (n ** 3 - n) - m * tieCorrection
+  return denominator === 0 ? null : (12 * s) / denominator
+}
+
+// Kendall's W over one row's collected rankings; null until it has two of them
+export function rowKendallW(row: RowRankings) {
+  return kendallW(row.rankings.map(entry => rankPositions(entry.groups)), row.systems)
+}
+
+export function meanRanks(rankMaps: RankMap[], systems: string[]): RankMap {
+  const result: RankMap = {}
+  systems.forEach(code => {
+    result[code] = mean(rankMaps.map(ranks => ranks[code])) ?? 0
+  })
+  return result
+}
+
+export function consensusRanking(rankMaps: RankMap[], systems: string[]): string[] {
+  const averages = meanRanks(rankMaps, systems)
+  return [...systems].sort((a, b) => averages[a] - averages[b])
+}
+
+/**
+ * Agreement statistics over every row with collected rankings.
+ * `lowest` limits how many of the least-agreeing rows are listed.
+ */
+export function computeAgreementReport(rows: RowRankings[], options: { lowest?: number } = {}): AgreementReport {
+  const lowest = options.lowest ?? 10
+  const rowAgreements: RowAgreement[] = []
+  const annotatorScores: Record<string, { annotations: number; taus: (number | null)[]; rhos: (number | null)[] }> = {}
+
+  rows.forEach(row => {
+    const rankMaps = row.rankings.map(entry => rankPositions(entry.groups))
+
+    const pairwise: PairwiseAgreement[] = []
+    for (let i = 0; i < row.rankings.length; i++) {
+      for (let j = i + 1; j < row.rankings.length; j++) {
+        pairwise.push({
+          rounds: [row.rankings[i].round, row.rankings[j].round],
+          annotators: [row.rankings[i].annotatorId, row.rankings[j].annotatorId],
+          tau: kendallTau(rankMaps[i], rankMaps[j], row.systems),
+          rho: spearmanRho(rankMaps[i], rankMaps[j], row.systems),
+        })
+      }
+    }
+
+    row.rankings.forEach((entry, index) => {
+      const scores = annotatorScores[entry.annotatorId] || { annotations: 0, taus: [], rhos: [] }
+      annotatorScores[entry.annotatorId] = scores
+      scores.annotations++
+
+      const others = rankMaps.filter((_, other) => other !== index)
+      if (others.length === 0) return
+      const consensus = meanRanks(others, row.systems)
+      scores.taus.push(kendallTau(rankMaps[index], consensus, row.systems))
+      scores.rhos.push(spearmanRho(rankMaps[index], consensus, row.systems))
+    })
+
+    rowAgreements.push({
+      id: row.id,
+      rowIndex: row.rowIndex,
+      annotations: row.rankings.length,
+      pairwise,
+      meanTau: mean(pairwise.map(pair => pair.tau)),
+      meanRho: mean(pairwise.map(pair => pair.rho)),
+      kendallW: kendallW(rankMaps, row.systems),
+      consensus: rankMaps.length > 0 ? consensusRanking(rankMaps, row.systems) : [],
+    })
+  })
+
+  const comparable = rowAgreements.filter(row => row.kendallW !== null)
+
+  return {
+    summary: {
+      rows: rows.length,
+      rowsWithAgreement: comparable.length,
+      annotations: rows.reduce((sum, row) => sum + row.rankings.length, 0),
+      invalidRankings: rows.reduce((sum, row) => sum + row.invalidRankings, 0),
+      excludedRankings: rows.reduce((sum, row) => sum + row.excludedRankings, 0),
+      meanKendallW: mean(comparable.map(row => row.kendallW)),
+      meanTau: mean(comparable.map(row => row.meanTau)),
+      meanRho: mean(comparable.map(row => row.meanRho)),
+    },
+    rows: rowAgreements,
+    annotators: Object.entries(annotatorScores)
+      .map(([annotatorId, scores]) => ({
+        annotatorId,
+        annotations: scores.annotations,
+        meanTauWithConsensus: mean(scores.taus),
+        meanRhoWithConsensus: mean(scores.rhos),
+      }))
+      .sort((a, b) => (a.meanTauWithConsensus ?? Infinity) - (b.meanTauWithConsensus ?? Infinity)),
+    lowestAgreement: [...comparable].sort((a, b) => (a.kendallW ?? 0) - (b.kendallW ?? 0)).slice(0, lowest),
+  }
+}
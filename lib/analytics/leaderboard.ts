@@ -0,0 +1,248 @@
+import type { RowRankings } from '../annotations'
+import { createRng } from '../random'
+import { matchesIdRange } from '../study-config'
+import { RankMap, rankPositions } from '../ranking'
+
+export interface LeaderboardOptions {
+  rounds?: number[] // Only use rankings from these annotator rounds
+  idMin?: number
+  idMax?: number
+  bootstrap?: number // Number of bootstrap resamples over rows
+  seed?: number
+}
+
+// Point estimate with a 95% bootstrap confidence interval
+export interface Estimate {
+  value: number | null
+  low: number | null
+  high: number | null
+}
+
+export interface LeaderboardEntry {
+  system: string
+  rank: number
+  meanRank: Estimate // Lower is better
+  borda: Estimate // Mean normalized Borda score in [0, 1]
+  winRate: Estimate // Share of pairwise comparisons won (ties count half)
+  bradleyTerry: Estimate // Log strength, centered so the mean system is 0
+}
+
+export interface Leaderboard {
+  rows: number
+  annotations: number
+  bootstrap: number
+  systems: string[]
+  entries: LeaderboardEntry[]
+  // winRates[a][b]: share of rankings with both systems where a is above b
+  winRates: Record<string, Record<string, number | null>>
+  comparisons: Record<string, Record<string, number>>
+}
+
+// Sufficient statistics of one row, so bootstrap resamples only need to add them up
+interface RowStats {
+  rankSum: Record<string, number>
+  rankCount: Record<string, number>
+  bordaSum: Record<string, number>
+  wins: Record<string, Record<string, number>>
+  comparisons: Record<string, Record<string, number>>
+}
+
+const BRADLEY_TERRY_ITERATIONS = 100
+const BRADLEY_TERRY_PRIOR = 0.1 // Virtual wins each way so undefeated systems keep a finite strength
+
+function emptyMatrix(systems: string[]) {
+  const matrix: Record<string, Record<string, number>> = {}
+  systems.forEach(a => {
+    matrix[a] = {}
+    systems.forEach(b => {
+      matrix[a][b] = 0
+    })
+  })
+  return matrix
+}
+
+function emptyStats(systems: string[]): RowStats {
+  const zeros = () => Object.fromEntries(systems.map(code => [code, 0]))
+  return {
+    rankSum: zeros(),
+    rankCount: zeros(),
+    bordaSum: zeros(),
+    wins: emptyMatrix(systems),
+    comparisons: emptyMatrix(systems),
+  }
+}
+
+function addRanking(stats: RowStats, ranks: RankMap, rowSystems: string[]) {
+  const n = rowSystems.length
+  rowSystems.forEach(a => {
+    stats.rankSum[a] += ranks[a]
+    stats.rankCount[a] += 1
+    stats.bordaSum[a] += n > 1 ? (n - ranks[a]) / (n - 1) : 0
+    rowSystems.forEach(b => {
+      if (a === b) return
+      stats.comparisons[a][b] += 1
+      if (ranks[a] < ranks[b]) stats.wins[a][b] += 1
+      else if (ranks[a] === ranks[b]) stats.wins[a][b] += 0.5
+    })
+  })
+}
+
+function addStats(target: RowStats, source: RowStats, systems: string[]) {
+  systems.forEach(a => {
+    target.rankSum[a] += source.rankSum[a]
+    target.rankCount[a] += source.rankCount[a]
+    target.bordaSum[a] += source.bordaSum[a]
+    systems.forEach(b => {
+      target.wins[a][b] += source.wins[a][b]
+      target.comparisons[a][b] += source.comparisons[a][b]
+    })
+  })
+}
+
+// Minorization-maximization fit of Bradley–Terry strengths (Hunter, 2004)
+export function fitBradleyTerry(
+  wins: Record<string, Record<string, number>>,
+  comparisons: Record<string, Record<string, number>>,
+  systems: string[]
+): Record<string, number> {
+  let strength: Record<string, number> = Object.fromEntries(systems.map(code => [code, 1]))
+
+  for (let iteration = 0; iteration < BRADLEY_TERRY_ITERATIONS; iteration++) {
+    const next: Record<string, number> = {}
+    systems.forEach(a => {
+      let totalWins = 0
+      let denominator = 0
+      systems.forEach(b => {
+        if (a === b) return
+        const games = comparisons[a][b] + 2 * BRADLEY_TERRY_PRIOR
+        totalWins += wins[a][b] + BRADLEY_TERRY_PRIOR
+        denominator += games / (strength[a] + strength[b])
+      })
+      next[a] = denominator > 0 ? totalWins / denominator : strength[a]
+    })
+
+    // Normalize to a geometric mean of 1 to keep the scale fixed
+    const logMean = systems.reduce((sum, code) => sum + Math.log(next[code]), 0) / systems.length
+    systems.forEach(code => {
+      next[code] = next[code] / Math.exp(logMean)
+    })
+    strength = next
+  }
+
+  return Object.fromEntries(systems.map(code => [code, Math.log(strength[code])]))
+}
+
+function scoreStats(stats: RowStats, systems: string[]) {
+  const bradleyTerry = fitBradleyTerry(stats.wins, stats.comparisons, systems)
+  return Object.fromEntries(systems.map(system => {
+    const count = stats.rankCount[system]
+    const totalComparisons = systems.reduce((sum, other) => sum + stats.comparisons[system][other], 0)
+    const totalWins = systems.reduce((sum, other) => sum + stats.wins[system][other], 0)
+    return [system, {
+      meanRank: count > 0 ? stats.rankSum[system] / count : null,
+      borda: count > 0 ? stats.bordaSum[system] / count : null,
+      winRate: totalComparisons > 0 ? totalWins / totalComparisons : null,
+      bradleyTerry: count > 0 ? bradleyTerry[system] : null,
+    }]
+  }))
+}
+
+type ScoreName = 'meanRank' | 'borda' | 'winRate' | 'bradleyTerry'
+
+function percentile(sorted: number[], fraction: number) {
+  if (sorted.length === 0) return null
+  const position = (sorted.length - 1) * fraction
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+/**
+ * Ranks systems from the collected annotations.
+ * Confidence intervals resample rows (sentences) with replacement.
+ */
+export function computeLeaderboard(rows: RowRankings[], systems: string[], options: LeaderboardOptions = {}): Leaderboard {
+  const bootstrap = options.bootstrap ?? 1000
+  const rng = createRng(options.seed ?? 1)
+
+  const rowStats: RowStats[] = []
+  let annotations = 0
+
+  rows
+    .filter(row => matchesIdRange(row.id, options.idMin, options.idMax))
+    .forEach(row => {
+      const rankings = row.rankings.filter(entry => !options.rounds || options.rounds.includes(entry.round))
+      if (rankings.length === 0) return
+
+      const stats = emptyStats(systems)
+      const rowSystems = row.systems.filter(code => systems.includes(code))
+      rankings.forEach(entry => addRanking(stats, rankPositions(entry.groups), rowSystems))
+      rowStats.push(stats)
+      annotations += rankings.length
+    })
+
+  const total = emptyStats(systems)
+  rowStats.forEach(stats => addStats(total, stats, systems))
+  const pointScores = scoreStats(total, systems)
+
+  const samples: Record<string, Record<ScoreName, number[]>> = Object.fromEntries(
+    systems.map(system => [system, { meanRank: [], borda: [], winRate: [], bradleyTerry: [] }])
+  )
+
+  if (rowStats.length > 0) {
+    for (let b = 0; b < bootstrap; b++) {
+      const resample = emptyStats(systems)
+      for (let i = 0; i < rowStats.length; i++) {
+        addStats(resample, rowStats[Math.floor(rng() * rowStats.length)], systems)
+      }
+      const scores = scoreStats(resample, systems)
+      systems.forEach(system => {
+        (Object.keys(samples[system]) as ScoreName[]).forEach(name => {
+          const value = scores[system][name]
+          if (value !== null) samples[system][name].push(value)
+        })
+      })
+    }
+  }
+
+  const estimate = (system: string, name: ScoreName): Estimate => {
+    const sorted = [...samples[system][name]].sort((a, b) => a - b)
+    return {
+      value: pointScores[system][name],
+      low: percentile(sorted, 0.025),
+      high: percentile(sorted, 0.975),
+    }
+  }
+
+  const entries = systems
+    .map(system => ({
+      system,
+      rank: 0,
+      meanRank: estimate(system, 'meanRank'),
+      borda: estimate(system, 'borda'),
+      winRate: estimate(system, 'winRate'),
+      bradleyTerry: estimate(system, 'bradleyTerry'),
+    }))
+    .sort((a, b) => (b.bradleyTerry.value ?? -Infinity) - (a.bradleyTerry.value ?? -Infinity))
+  entries.forEach((entry, index) => {
+    entry.rank = index + 1
+  })
+
+  const winRates: Record<string, Record<string, number | null>> = {}
+  systems.forEach(a => {
+    winRates[a] = {}
+    systems.forEach(b => {
+      winRates[a][b] = a !== b && total.comparisons[a][b] > 0 ? total.wins[a][b] / total.comparisons[a][b] : null
+    })
+  })
+
+  return {
+    rows: rowStats.length,
+    annotations,
+    bootstrap: rowStats.length > 0 ? bootstrap : 0,
+    systems,
+    entries,
+    winRates,
+    comparisons: total.comparisons,
+  }
+}
@@ -0,0 +1,73 @@
+import type { RowRankings } from '../annotations'
+import { ERROR_CATEGORIES, ERROR_SEVERITIES, ErrorCategory, ErrorSeverity, SEVERITY_WEIGHTS, spanPenalty } from '../mqm'
+
+export interface MqmSystemScore {
+  system: string
+  segments: number // Annotated translations of this system
+  errors: number
+  penalty: number // Sum of severity weights
+  score: number | null // Negative mean penalty per segment; 0 means no errors were marked
+  bySeverity: Record<ErrorSeverity, number>
+  byCategory: Record<ErrorCategory, number>
+}
+
+export interface MqmReport {
+  weights: Record<ErrorSeverity, number>
+  summary: {
+    rankings: number
+    withErrorSpans: number
+  }
+  systems: MqmSystemScore[] // Best score first; systems without annotated segments last
+}
+
+const zeros = <K extends string>(keys: readonly K[]) => Object.fromEntries(keys.map(key => [key, 0])) as Record<K, number>
+
+/**
+ * MQM score per system from the stored error spans. Every translation of a ranking that was
+ * submitted with error spans counts as one segment, including translations with no errors;
+ * rankings stored without error spans are left out.
+ */
+export function computeMqmReport(rows: RowRankings[], systems: string[]): MqmReport {
+  const scores = new Map<string, MqmSystemScore>(systems.map(system => [system, {
+    system,
+    segments: 0,
+    errors: 0,
+    penalty: 0,
+    score: null,
+    bySeverity: zeros(ERROR_SEVERITIES),
+    byCategory: zeros(ERROR_CATEGORIES),
+  }]))
+  let rankings = 0
+  let withErrorSpans = 0
+
+  rows.forEach(row => {
+    row.rankings.forEach(entry => {
+      rankings++
+      if (!entry.errorSpans) return
+      withErrorSpans++
+
+      row.systems.forEach(system => {
+        const score = scores.get(system)
+        if (!score) return
+        const spans = entry.errorSpans!.filter(span => span.system === system)
+        score.segments++
+        score.errors += spans.length
+        score.penalty += spanPenalty(spans)
+        spans.forEach(span => {
+          score.bySeverity[span.severity]++
+          score.byCategory[span.category]++
+        })
+      })
+    })
+  })
+
+  scores.forEach(score => {
+    score.score = score.segments > 0 ? -score.penalty / score.segments : null
+  })
+
+  return {
+    weights: SEVERITY_WEIGHTS,
+    summary: { rankings, withErrorSpans },
+    systems: Array.from(scores.values()).sort((a, b) => (b.score ?? -Infinity) - (a.score ?? -Infinity)),
+  }
+}
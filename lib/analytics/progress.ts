@@ -0,0 +1,175 @@
+import type { RowRankings } from '../annotations'
+import type { GoldStats } from '../gold'
+import { isLeaseActive } from '../leases'
+import type { RowStatus } from '../rows'
+import type { BatchLease } from '../storage/types'
+import { annotatorRounds, StudyConfig, studyConfig } from '../study-config'
+import type { TelemetryReport } from './telemetry'
+
+export type ThroughputBucket = 'hour' | 'day'
+
+export interface RoundProgress {
+  round: number
+  done: number // Ranking cell filled
+  leased: number // Empty, but reserved by an active batch lease for this round
+  pending: number // Empty and still needed
+  notNeeded: number // Empty, but the row already has its required rankings
+}
+
+export interface ThroughputPoint {
+  start: string // Start of the bucket (UTC)
+  batches: number
+  rows: number
+}
+
+export interface AnnotatorProgress {
+  annotatorId: string
+  batches: number // Leases handed out
+  completedBatches: number
+  activeBatches: number
+  rankings: number // Ranking cells stored under this annotator
+  goldAccuracy: number | null
+  goldFlagged: boolean
+  speedFlags: number // Submissions flagged as too fast by the telemetry report
+}
+
+export interface ProgressReport {
+  generatedAt: string
+  rows: {
+    eligible: number
+    complete: number
+    remainingRankings: number // Rankings still needed on rows that have an empty round left
+    leasedRankings: number
+    stuck: number // Incomplete rows with no empty round left; raise `extraRounds` to finish them
+    lowAgreement: number // Rows with their required rankings kept open by `adaptiveRounds`
+  }
+  rounds: RoundProgress[]
+  throughput: {
+    bucket: ThroughputBucket
+    points: ThroughputPoint[] // Oldest first, from completed batches
+    lastDayRows: number
+  }
+  annotators: AnnotatorProgress[]
+  prolific: {
+    batchSize: number
+    flagRate: number // Share of gold-checked annotators who are flagged
+    slotsNeeded: number // Estimated submissions still needed, allowing for flagged annotators
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function bucketStart(date: Date, bucket: ThroughputBucket) {
+  const start = new Date(date)
+  start.setUTCMinutes(0, 0, 0)
+  if (bucket === 'day') start.setUTCHours(0)
+  return start.toISOString()
+}
+
+/**
+ * Study progress for the admin dashboard. `statuses` must come from `collectRowStatuses` with the
+ * same excluded annotators `next-batch` uses, so "pending" matches what annotators can still be given.
+ */
+export function computeProgressReport(
+  statuses: RowStatus[],
+  leases: BatchLease[],
+  rankings: RowRankings[],
+  gold: GoldStats[],
+  telemetry: TelemetryReport,
+  options: { bucket?: ThroughputBucket; now?: Date; config?: StudyConfig } = {}
+): ProgressReport {
+  const { bucket = 'day', now = new Date(), config = studyConfig } = options
+  const activeLeases = leases.filter(lease => isLeaseActive(lease, now))
+  const isLeased = (id: string, round: number) =>
+    activeLeases.some(lease => lease.round === round && lease.rowIds.includes(id))
+
+  const rounds = annotatorRounds(config).map((round, index) => {
+    const progress: RoundProgress = { round, done: 0, leased: 0, pending: 0, notNeeded: 0 }
+    statuses.forEach(row => {
+      if (row.annotatorComplete[index]) progress.done++
+      else if (isLeased(row.id, round)) progress.leased++
+      else if (row.complete) progress.notNeeded++
+      else progress.pending++
+    })
+    return progress
+  })
+
+  let remainingRankings = 0
+  let leasedRankings = 0
+  let stuck = 0
+  let lowAgreement = 0
+  statuses.forEach(row => {
+    if (row.complete) return
+    if (row.lowAgreement) lowAgreement++
+    const openRounds = row.annotatorComplete.filter(filled => !filled).length
+    if (openRounds === 0) {
+      stuck++
+      return
+    }
+    const needed = Math.min(row.targetRounds - row.countedRounds, openRounds)
+    const leased = annotatorRounds(config).filter((round, index) => !row.annotatorComplete[index] && isLeased(row.id, round)).length
+    remainingRankings += needed
+    leasedRankings += Math.min(leased, needed)
+  })
+
+  const points = new Map<string, ThroughputPoint>()
+  let lastDayRows = 0
+  leases.forEach(lease => {
+    if (!lease.completedAt) return
+    const completedAt = new Date(lease.completedAt)
+    const start = bucketStart(completedAt, bucket)
+    const point = points.get(start) || { start, batches: 0, rows: 0 }
+    point.batches++
+    point.rows += lease.rowIds.length
+    points.set(start, point)
+    if (now.getTime() - completedAt.getTime() <= DAY_MS) lastDayRows += lease.rowIds.length
+  })
+
+  const rankingCounts = new Map<string, number>()
+  rankings.forEach(row => row.rankings.forEach(entry => {
+    rankingCounts.set(entry.annotatorId, (rankingCounts.get(entry.annotatorId) || 0) + 1)
+  }))
+  const goldByAnnotator = new Map(gold.map(stats => [stats.annotatorId, stats]))
+  const speedFlags = new Map(telemetry.annotators.map(entry => [entry.annotatorId, entry.flaggedSubmissions]))
+  const annotatorIds = Array.from(new Set([...leases.map(lease => lease.annotatorId), ...Array.from(rankingCounts.keys())]))
+
+  const annotators = annotatorIds.map(annotatorId => {
+    const own = leases.filter(lease => lease.annotatorId === annotatorId)
+    const goldStats = goldByAnnotator.get(annotatorId)
+    return {
+      annotatorId,
+      batches: own.length,
+      completedBatches: own.filter(lease => lease.completedAt).length,
+      activeBatches: own.filter(lease => isLeaseActive(lease, now)).length,
+      rankings: rankingCounts.get(annotatorId) || 0,
+      goldAccuracy: goldStats ? goldStats.accuracy : null,
+      goldFlagged: Boolean(goldStats?.flagged),
+      speedFlags: speedFlags.get(annotatorId) || 0,
+    }
+  }).sort((a, b) => b.rankings - a.rankings)
+
+  // Flagged annotators' rankings get replaced, so scale the estimate up by the observed flag rate
+  const flagRate = gold.length > 0 ? gold.filter(stats => stats.flagged).length / gold.length : 0
+  const unleased = Math.max(0, remainingRankings - leasedRankings)
+  const slotsNeeded = unleased === 0 ? 0 : Math.ceil(unleased / config.batchSize / Math.max(1 - flagRate, 0.1))
+
+  return {
+    generatedAt: now.toISOString(),
+    rows: {
+      eligible: statuses.length,
+      complete: statuses.filter(row => row.complete).length,
+      remainingRankings,
+      leasedRankings,
+      stuck,
+      lowAgreement,
+    },
+    rounds,
+    throughput: {
+      bucket,
+      points: Array.from(points.values()).sort((a, b) => a.start.localeCompare(b.start)),
+      lastDayRows,
+    },
+    annotators,
+    prolific: { batchSize: config.batchSize, flagRate, slotsNeeded },
+  }
+}
@@ -0,0 +1,115 @@
+import type { RowRankings } from '../annotations'
+import { mean } from './agreement'
+import { studyConfig } from '../study-config'
+
+export interface SpeedThresholds {
+  minDwellSeconds: number // Less time on screen than this flags the submission
+  minCommentSeconds: number // Writing a non-empty comment faster than this flags the submission
+}
+
+export type SpeedFlag = 'short_dwell' | 'short_comment'
+
+export interface SubmissionTelemetry {
+  id: string
+  round: number
+  annotatorId: string
+  dwellSeconds: number
+  commentEditSeconds: number
+  dragCount: number
+  orderChanges: number // Distinct orders the annotator went through after the initial one
+  flags: SpeedFlag[]
+}
+
+export interface AnnotatorTelemetry {
+  annotatorId: string
+  submissions: number
+  flaggedSubmissions: number
+  medianDwellSeconds: number | null
+  medianCommentEditSeconds: number | null
+  meanDragCount: number | null
+}
+
+export interface TelemetryReport {
+  thresholds: SpeedThresholds
+  summary: {
+    rankings: number
+    withTelemetry: number
+    flaggedSubmissions: number
+    medianDwellSeconds: number | null
+  }
+  annotators: AnnotatorTelemetry[]
+  flagged: SubmissionTelemetry[] // Fastest first
+}
+
+function median(values: number[]) {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/**
+ * Time on task per stored ranking, flagging submissions faster than the thresholds.
+ * Rankings stored without telemetry are counted but never flagged.
+ */
+export function computeTelemetryReport(
+  rows: RowRankings[],
+  thresholds: SpeedThresholds = studyConfig.speedThresholds
+): TelemetryReport {
+  const submissions: SubmissionTelemetry[] = []
+  let rankings = 0
+
+  rows.forEach(row => {
+    row.rankings.forEach(entry => {
+      rankings++
+      const { telemetry } = entry
+      if (!telemetry) return
+
+      const dwellSeconds = telemetry.dwellMs / 1000
+      const commentEditSeconds = telemetry.commentEditMs / 1000
+      const flags: SpeedFlag[] = []
+      if (dwellSeconds < thresholds.minDwellSeconds) flags.push('short_dwell')
+      if (entry.comment.trim() && commentEditSeconds < thresholds.minCommentSeconds) flags.push('short_comment')
+
+      const distinctOrders = new Set(telemetry.orderHistory.map(order => order.join(',')))
+      distinctOrders.delete(telemetry.initialOrder.join(','))
+
+      submissions.push({
+        id: row.id,
+        round: entry.round,
+        annotatorId: entry.annotatorId,
+        dwellSeconds,
+        commentEditSeconds,
+        dragCount: telemetry.dragCount,
+        orderChanges: distinctOrders.size,
+        flags,
+      })
+    })
+  })
+
+  const byAnnotator = new Map<string, SubmissionTelemetry[]>()
+  submissions.forEach(submission => {
+    byAnnotator.set(submission.annotatorId, [...(byAnnotator.get(submission.annotatorId) || []), submission])
+  })
+
+  const flagged = submissions.filter(submission => submission.flags.length > 0)
+
+  return {
+    thresholds,
+    summary: {
+      rankings,
+      withTelemetry: submissions.length,
+      flaggedSubmissions: flagged.length,
+      medianDwellSeconds: median(submissions.map(submission => submission.dwellSeconds)),
+    },
+    annotators: Array.from(byAnnotator, ([annotatorId, entries]) => ({
+      annotatorId,
+      submissions: entries.length,
+      flaggedSubmissions: entries.filter(entry => entry.flags.length > 0).length,
+      medianDwellSeconds: median(entries.map(entry => entry.dwellSeconds)),
+      medianCommentEditSeconds: median(entries.map(entry => entry.commentEditSeconds)),
+      meanDragCount: mean(entries.map(entry => entry.dragCount)),
+    })).sort((a, b) => b.flaggedSubmissions / b.submissions - a.flaggedSubmissions / a.submissions),
+    flagged: flagged.sort((a, b) => a.dwellSeconds - b.dwellSeconds),
+  }
+}
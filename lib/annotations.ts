@@ -0,0 +1,142 @@
+import { isGoldRow } from './gold'
+import { annotatorColumnName, findAnnotatorCommentField, findAnnotatorRankingField, findHeader, getCellValue, SheetSnapshot } from './sheet'
+import { LanguagePair, readLanguagePair } from './languages'
+import { ErrorSpan, parseErrorSpansCell } from './mqm'
+import { PairJudgment, parseJudgments } from './pairwise'
+import { parseScores, parseTieGroups, singletonGroups, tieGroupsMatchRanking } from './ranking'
+import { ItemTelemetry, parseTelemetryCell } from './telemetry'
+import { annotatorRounds, matchesIdFilter, StudyConfig, studyConfig } from './study-config'
+
+// One annotator's stored ranking of a row
+export interface RoundRanking {
+  round: number
+  annotatorId: string // Lease annotator ID or Prolific PID when stored, otherwise "round-N"
+  ranking: string[] // System codes, best first
+  groups: string[][] // Tie groups in rank order; singletons when the annotator used no ties
+  scores: Record<string, number> // Optional graded scores per system
+  comment: string
+  judgments: PairJudgment[] // Raw pairwise judgments; empty for drag-and-drop rankings
+  errorSpans: ErrorSpan[] | null // MQM error spans; null when the ranking was stored without them
+  telemetry: ItemTelemetry | null // Missing for rankings stored before telemetry was collected
+}
+
+// A row's systems together with every ranking collected for it so far
+export interface RowRankings extends LanguagePair {
+  id: string
+  rowIndex: number
+  sentence: string
+  systems: string[]
+  translations: Record<string, string> // system code -> translation text
+  rankings: RoundRanking[]
+  invalidRankings: number // Filled ranking cells that are not a permutation of the row's systems
+  excludedRankings: number // Rankings left out because their annotator is flagged
+}
+
+export function parseRankingCell(value: string) {
+  return value.split(',').map(code => code.trim()).filter(Boolean)
+}
+
+export function isPermutationOf(ranking: string[], systems: string[]) {
+  return ranking.length === systems.length && new Set(ranking).size === ranking.length && ranking.every(code => systems.includes(code))
+}
+
+// Who filled a round: the stored lease annotator ID, else the Prolific PID
+export function roundAnnotatorId(sheet: SheetSnapshot, row: Record<string, string>, round: number) {
+  return getCellValue(row, findHeader(sheet.headers, [annotatorColumnName(round, 'Annotator_ID')])) ||
+    getCellValue(row, findHeader(sheet.headers, [annotatorColumnName(round, 'Prolific_PID')]))
+}
+
+/**
+ * Reads every filled `Annotator_N_Rankings` cell from the sheet.
+ * Only rows passing the study's ID filter are included; gold rows and rankings by
+ * `excludedAnnotators` (e.g. flagged by gold checks) are left out.
+ */
+export function collectRankings(
+  sheet: SheetSnapshot,
+  config: StudyConfig = studyConfig,
+  excludedAnnotators: ReadonlySet<string> = new Set()
+): RowRankings[] {
+  const { headers } = sheet
+  const idField = findHeader(headers, ['id'])
+  const sentenceField = findHeader(headers, ['sentence'])
+  if (!idField) {
+    throw new Error('ID column not found in sheet')
+  }
+
+  const systemFields = config.systems.map(code => ({ code, field: findHeader(headers, [code]) }))
+  const roundFields = annotatorRounds(config).map(round => ({
+    round,
+    rankingField: findAnnotatorRankingField(headers, round),
+    commentField: findAnnotatorCommentField(headers, round),
+    tiesField: findHeader(headers, [annotatorColumnName(round, 'Ties')]),
+    scoresField: findHeader(headers, [annotatorColumnName(round, 'Scores')]),
+    telemetryField: findHeader(headers, [annotatorColumnName(round, 'Telemetry')]),
+    pairwiseField: findHeader(headers, [annotatorColumnName(round, 'Pairwise')]),
+    errorsField: findHeader(headers, [annotatorColumnName(round, 'Errors')]),
+  }))
+
+  const result: RowRankings[] = []
+
+  sheet.rows.forEach((row, index) => {
+    const id = getCellValue(row, idField)
+    if (!id || !matchesIdFilter(id, config) || isGoldRow(row, headers)) return
+
+    const translations: Record<string, string> = {}
+    systemFields.forEach(({ code, field }) => {
+      const value = getCellValue(row, field)
+      if (value) translations[code] = value
+    })
+    const systems = config.systems.filter(code => translations[code] !== undefined)
+
+    const rankings: RoundRanking[] = []
+    let invalidRankings = 0
+    let excludedRankings = 0
+
+    roundFields.forEach(({ round, rankingField, commentField, tiesField, scoresField, telemetryField, pairwiseField, errorsField }) => {
+      const cell = getCellValue(row, rankingField)
+      if (!cell) return
+
+      const annotatorId = roundAnnotatorId(sheet, row, round)
+      if (annotatorId && excludedAnnotators.has(annotatorId)) {
+        excludedRankings++
+        return
+      }
+
+      const ranking = parseRankingCell(cell)
+      if (!isPermutationOf(ranking, systems)) {
+        invalidRankings++
+        return
+      }
+
+      // Tie groups only count when they cover the same order as the ranking cell
+      const tieGroups = parseTieGroups(getCellValue(row, tiesField))
+      const groups = tieGroupsMatchRanking(tieGroups, ranking) ? tieGroups : singletonGroups(ranking)
+
+      rankings.push({
+        round,
+        annotatorId: annotatorId || `round-${round}`,
+        ranking,
+        groups,
+        scores: parseScores(getCellValue(row, scoresField)),
+        comment: getCellValue(row, commentField),
+        judgments: parseJudgments(getCellValue(row, pairwiseField)),
+        errorSpans: parseErrorSpansCell(getCellValue(row, errorsField), translations),
+        telemetry: parseTelemetryCell(getCellValue(row, telemetryField)),
+      })
+    })
+
+    result.push({
+      id,
+      rowIndex: index + 2,
+      sentence: getCellValue(row, sentenceField),
+      ...readLanguagePair(row, headers),
+      systems,
+      translations,
+      rankings,
+      invalidRankings,
+      excludedRankings,
+    })
+  })
+
+  return result
+}
@@ -0,0 +1,119 @@
+import { randomUUID } from 'crypto'
+import type {
+  AnnotationStore,
+  AnnotationUpdate,
+  AnnotationUpdateResult,
+  AuditEvent,
+  InvalidationCriteria,
+  InvalidationEvent,
+  SubmissionEvent,
+} from './storage/types'
+
+const AUDIT_APPEND_ATTEMPTS = 3
+const AUDIT_RETRY_DELAY_MS = 500
+
+// One event per sentence a submission actually stored; replays of an earlier write add nothing
+export function submissionEvents(
+  annotations: AnnotationUpdate[],
+  updates: AnnotationUpdateResult[],
+  leaseId: string,
+  at = new Date()
+): SubmissionEvent[] {
+  return annotations.flatMap(ann => {
+    const update = updates.find(candidate => candidate.id === ann.id)
+    if (!update?.success || update.duplicate || update.round === undefined) return []
+    return [{
+      type: 'submission' as const,
+      eventId: randomUUID(),
+      at: at.toISOString(),
+      annotatorId: ann.annotatorId || '',
+      leaseId,
+      rowId: ann.id,
+      round: update.round,
+      payload: ann,
+    }]
+  })
+}
+
+/**
+ * Appends events to the audit log, retrying failed attempts. A stored sentence without its
+ * submission event can never be invalidated, so the caller reports a failure instead of dropping it.
+ * Returns why the events could not be appended, or null once they are.
+ */
+export async function appendAuditEventsWithRetry(
+  store: Pick<AnnotationStore, 'appendAuditEvents'>,
+  events: AuditEvent[]
+): Promise<string | null> {
+  let lastError = ''
+  for (let attempt = 1; attempt <= AUDIT_APPEND_ATTEMPTS; attempt++) {
+    try {
+      await store.appendAuditEvents(events)
+      return null
+    } catch (error: any) {
+      lastError = error?.message || String(error)
+      console.error(`Error appending to the audit log (attempt ${attempt} of ${AUDIT_APPEND_ATTEMPTS}):`, error)
+      if (attempt < AUDIT_APPEND_ATTEMPTS) {
+        await new Promise(resolve => setTimeout(resolve, AUDIT_RETRY_DELAY_MS * attempt))
+      }
+    }
+  }
+  return lastError
+}
+
+export function invalidatedEventIds(events: AuditEvent[]) {
+  return new Set(events.flatMap(event => (event.type === 'invalidation' ? event.eventIds : [])))
+}
+
+/**
+ * Reads `annotatorId`, `from` and `to` from an admin request; at least one is required so a
+ * request can never void the whole log by accident.
+ */
+export function parseInvalidationCriteria(value: any): { criteria: InvalidationCriteria } | { error: string } {
+  const criteria: InvalidationCriteria = {}
+  if (typeof value?.annotatorId === 'string' && value.annotatorId.trim()) {
+    criteria.annotatorId = value.annotatorId.trim()
+  }
+  for (const key of ['from', 'to'] as const) {
+    if (value?.[key] === undefined || value[key] === '') continue
+    const time = new Date(value[key])
+    if (typeof value[key] !== 'string' || Number.isNaN(time.getTime())) {
+      return { error: `${key} must be an ISO timestamp` }
+    }
+    criteria[key] = time.toISOString()
+  }
+  if (!criteria.annotatorId && !criteria.from && !criteria.to) {
+    return { error: 'Give an annotatorId, a from/to time window or both' }
+  }
+  if (criteria.from && criteria.to && criteria.from >= criteria.to) {
+    return { error: 'from must be before to' }
+  }
+  return { criteria }
+}
+
+// Submissions matching the criteria that no earlier invalidation has voided yet
+export function selectSubmissionsToInvalidate(events: AuditEvent[], criteria: InvalidationCriteria): SubmissionEvent[] {
+  const voided = invalidatedEventIds(events)
+  return events.filter((event): event is SubmissionEvent =>
+    event.type === 'submission' &&
+    !voided.has(event.eventId) &&
+    (!criteria.annotatorId || event.annotatorId === criteria.annotatorId) &&
+    (!criteria.from || event.at >= criteria.from) &&
+    (!criteria.to || event.at < criteria.to)
+  )
+}
+
+export function createInvalidationEvent(
+  criteria: InvalidationCriteria,
+  submissions: SubmissionEvent[],
+  reason?: string,
+  at = new Date()
+): InvalidationEvent {
+  return {
+    type: 'invalidation',
+    eventId: randomUUID(),
+    at: at.toISOString(),
+    criteria,
+    ...(reason ? { reason } : {}),
+    eventIds: submissions.map(event => event.eventId),
+  }
+}
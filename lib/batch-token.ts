@@ -0,0 +1,123 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import type { BatchLease } from './storage/types'
+
+// A token stays valid this long after its lease expires, so a late submission can still be honored
+const TOKEN_GRACE_MINUTES = 60
+
+// What a batch token vouches for; the update route only writes annotations covered by it.
+// The claims are readable by the client, so the rows are looked up on the stored lease instead:
+// listing them would give away which ones are hidden gold rows
+export interface BatchTokenClaims {
+  leaseId: string
+  annotatorId: string
+  round: number
+  expiresAt: string
+}
+
+// Next.js bundles every route separately, so a per-process key has to live outside this module
+const processKeys = globalThis as typeof globalThis & { batchTokenFallbackSecret?: Buffer }
+
+/**
+ * Signing key from `BATCH_TOKEN_SECRET`. Outside production a random key is generated per server
+ * process, so tokens issued before a restart stop working.
+ */
+function tokenSecret(): Buffer {
+  const secret = process.env.BATCH_TOKEN_SECRET
+  if (secret) return Buffer.from(secret)
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('BATCH_TOKEN_SECRET is not set')
+  }
+  if (!processKeys.batchTokenFallbackSecret) {
+    console.warn('BATCH_TOKEN_SECRET is not set; using a random key for this process')
+    processKeys.batchTokenFallbackSecret = randomBytes(32)
+  }
+  return processKeys.batchTokenFallbackSecret
+}
+
+function sign(payload: string) {
+  return createHmac('sha256', tokenSecret()).update(payload).digest('base64url')
+}
+
+export function batchTokenClaims(lease: BatchLease): BatchTokenClaims {
+  const expiresAt = new Date(new Date(lease.expiresAt).getTime() + TOKEN_GRACE_MINUTES * 60 * 1000)
+  return {
+    leaseId: lease.leaseId,
+    annotatorId: lease.annotatorId,
+    round: lease.round,
+    expiresAt: expiresAt.toISOString(),
+  }
+}
+
+// "<base64url claims>.<base64url HMAC-SHA256 of the claims>"
+export function createBatchToken(lease: BatchLease) {
+  const payload = Buffer.from(JSON.stringify(batchTokenClaims(lease))).toString('base64url')
+  return `${payload}.${sign(payload)}`
+}
+
+/**
+ * Checks the signature and expiry of a batch token.
+ * Returns the claims, or a reason the token cannot be used.
+ */
+export function verifyBatchToken(
+  token: unknown,
+  now = new Date()
+): { claims: BatchTokenClaims } | { error: string; expired?: boolean } {
+  if (typeof token !== 'string') {
+    return { error: 'batchToken is required' }
+  }
+
+  const [payload, signature, ...rest] = token.split('.')
+  if (!payload || !signature || rest.length > 0) {
+    return { error: 'Malformed batch token' }
+  }
+  const expected = Buffer.from(sign(payload))
+  const actual = Buffer.from(signature)
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return { error: 'Invalid batch token signature' }
+  }
+
+  let claims: BatchTokenClaims
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+  } catch {
+    return { error: 'Malformed batch token' }
+  }
+  if (new Date(claims.expiresAt).getTime() <= now.getTime()) {
+    return { error: 'Batch token has expired', expired: true }
+  }
+  return { claims }
+}
+
+/**
+ * Returns why a submission is not covered by its token, or null when it is.
+ * The claims must still describe the stored lease, whose leased and gold rows are the only ones
+ * accepted, and each row is accepted once: rows already
+ * submitted under the token are rejected unless the request replays that earlier submission.
+ */
+export function checkSubmissionAgainstToken(
+  claims: BatchTokenClaims,
+  lease: BatchLease | null,
+  rowIds: string[],
+  alreadySubmitted: (id: string) => boolean
+): string | null {
+  if (
+    !lease ||
+    lease.leaseId !== claims.leaseId ||
+    lease.annotatorId !== claims.annotatorId ||
+    lease.round !== claims.round
+  ) {
+    return 'Batch token does not match a batch lease'
+  }
+
+  const outside = rowIds.filter(id => !lease.rowIds.includes(id) && !lease.goldRowIds?.includes(id))
+  if (outside.length > 0) {
+    return `Rows not part of this batch: ${outside.join(', ')}`
+  }
+
+  const resubmitted = rowIds.filter(alreadySubmitted)
+  if (resubmitted.length > 0) {
+    return `Rows already submitted with this batch token: ${resubmitted.join(', ')}`
+  }
+
+  return null
+}
@@ -0,0 +1,119 @@
+/**
+ * Word-level differences between candidate translations, for highlighting in the ranking list.
+ * Words come from `Intl.Segmenter`, so scripts without spaces (Chinese, Japanese, Thai) are split
+ * into words too; offsets are into the text as a JavaScript string, like error spans.
+ */
+
+export interface Token {
+  text: string
+  start: number
+  end: number
+  isWord: boolean // Punctuation and whitespace are never highlighted
+}
+
+export interface TextRange {
+  start: number
+  end: number
+}
+
+// Letters, combining marks and digits of any script
+const WORD_PATTERN = new RegExp('[\\p{L}\\p{M}\\p{N}]+|\\s+|[^\\p{L}\\p{M}\\p{N}\\s]', 'gu')
+const WORD_START = new RegExp('^[\\p{L}\\p{M}\\p{N}]', 'u')
+
+export function tokenize(text: string): Token[] {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter(undefined, { granularity: 'word' })
+    return Array.from(segmenter.segment(text), ({ segment, index, isWordLike }) => ({
+      text: segment,
+      start: index,
+      end: index + segment.length,
+      isWord: Boolean(isWordLike),
+    }))
+  }
+  return Array.from(text.matchAll(WORD_PATTERN), match => ({
+    text: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+    isWord: WORD_START.test(match[0]),
+  }))
+}
+
+// Canonical form for comparing words: composed Unicode, case-insensitive
+const wordKey = (token: Token) => token.text.normalize('NFC').toLocaleLowerCase()
+
+// Indexes of the `candidate` words that are part of a longest common subsequence with `anchor`
+function commonWordIndexes(anchor: string[], candidate: string[]) {
+  const lengths = Array.from({ length: anchor.length + 1 }, () => new Array<number>(candidate.length + 1).fill(0))
+  for (let i = anchor.length - 1; i >= 0; i--) {
+    for (let j = candidate.length - 1; j >= 0; j--) {
+      lengths[i][j] = anchor[i] === candidate[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const common = new Set<number>()
+  let i = 0
+  let j = 0
+  while (i < anchor.length && j < candidate.length) {
+    if (anchor[i] === candidate[j]) {
+      common.add(j)
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+  return common
+}
+
+// Ranges of `candidate` words that are not in `anchor`, taking word order into account
+export function diffAgainstAnchor(anchor: string, candidate: string): TextRange[] {
+  const anchorWords = tokenize(anchor).filter(token => token.isWord).map(wordKey)
+  const candidateWords = tokenize(candidate).filter(token => token.isWord)
+  const common = commonWordIndexes(anchorWords, candidateWords.map(wordKey))
+  return mergeRanges(candidateWords.filter((_, index) => !common.has(index)), candidate)
+}
+
+/**
+ * For each text, ranges of the words that do not occur in every other text (counting repeats),
+ * i.e. where the candidates disagree.
+ */
+export function disagreementRanges(texts: string[]): TextRange[][] {
+  const words = texts.map(text => tokenize(text).filter(token => token.isWord))
+  const counts = words.map(tokens => {
+    const count = new Map<string, number>()
+    tokens.forEach(token => count.set(wordKey(token), (count.get(wordKey(token)) || 0) + 1))
+    return count
+  })
+  const shared = new Map<string, number>()
+  counts[0]?.forEach((count, key) => {
+    shared.set(key, Math.min(count, ...counts.slice(1).map(other => other.get(key) || 0)))
+  })
+
+  return words.map((tokens, index) => {
+    const seen = new Map<string, number>()
+    const differing = tokens.filter(token => {
+      const key = wordKey(token)
+      seen.set(key, (seen.get(key) || 0) + 1)
+      return seen.get(key)! > (shared.get(key) || 0)
+    })
+    return mergeRanges(differing, texts[index])
+  })
+}
+
+// Joins highlighted words separated only by whitespace, so a changed phrase reads as one mark
+function mergeRanges(tokens: Token[], text: string): TextRange[] {
+  const ranges: TextRange[] = []
+  tokens.forEach(token => {
+    const last = ranges[ranges.length - 1]
+    if (last && /^\s*$/.test(text.slice(last.end, token.start))) {
+      last.end = token.end
+    } else {
+      ranges.push({ start: token.start, end: token.end })
+    }
+  })
+  return ranges
+}
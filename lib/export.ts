@@ -0,0 +1,152 @@
+import Papa from 'papaparse'
+import { kendallW } from './analytics/agreement'
+import type { RowRankings } from './annotations'
+import { ErrorSpan, spanPenalty } from './mqm'
+import type { PairJudgment } from './pairwise'
+import { rankPositions } from './ranking'
+
+export type ExportFormat = 'jsonl' | 'csv' | 'pairs'
+export type PairMode = 'all' | 'top-bottom'
+
+export interface ExportOptions {
+  minAgreement?: number // Drop rows whose Kendall's W is below this; rows with a single ranking are kept
+  pairs?: PairMode
+}
+
+// One annotator's ranking joined with the row's source and translation texts
+export interface AnnotationRecord {
+  id: string
+  sentence: string
+  sourceLang: string | null
+  targetLang: string | null
+  round: number
+  annotatorId: string
+  ranking: string[]
+  groups: string[][] // Tie groups in rank order
+  scores: Record<string, number>
+  judgments: PairJudgment[] // Raw pairwise judgments when the ranking came from pairwise mode
+  errorSpans: ErrorSpan[] | null // MQM error spans, null when none were collected
+  comment: string
+  translations: Record<string, string>
+  agreement: number | null // Kendall's W of the row
+}
+
+export interface PreferencePair {
+  id: string
+  sentence: string
+  round: number
+  annotatorId: string
+  chosen_system: string
+  chosen: string
+  rejected_system: string
+  rejected: string
+  margin: number // Difference in rank positions
+  score_margin: number | null // Difference in graded scores when both were scored
+}
+
+export function buildAnnotationRecords(rows: RowRankings[], options: ExportOptions = {}): AnnotationRecord[] {
+  const records: AnnotationRecord[] = []
+
+  rows.forEach(row => {
+    const agreement = kendallW(row.rankings.map(entry => rankPositions(entry.groups)), row.systems)
+    if (options.minAgreement !== undefined && agreement !== null && agreement < options.minAgreement) {
+      return
+    }
+
+    row.rankings.forEach(entry => {
+      records.push({
+        id: row.id,
+        sentence: row.sentence,
+        sourceLang: row.sourceLang ?? null,
+        targetLang: row.targetLang ?? null,
+        round: entry.round,
+        annotatorId: entry.annotatorId,
+        ranking: entry.ranking,
+        groups: entry.groups,
+        scores: entry.scores,
+        judgments: entry.judgments,
+        errorSpans: entry.errorSpans,
+        comment: entry.comment,
+        translations: row.translations,
+        agreement,
+      })
+    })
+  })
+
+  return records
+}
+
+export function toJsonl(items: object[]) {
+  return items.map(item => JSON.stringify(item)).join('\n') + (items.length > 0 ? '\n' : '')
+}
+
+// One line per system per annotation
+export function toLongCsv(records: AnnotationRecord[]) {
+  const lines = records.flatMap(record => {
+    const ranks = rankPositions(record.groups)
+    return record.ranking.map(system => ({
+      id: record.id,
+      sentence: record.sentence,
+      source_lang: record.sourceLang ?? '',
+      target_lang: record.targetLang ?? '',
+      round: record.round,
+      annotator_id: record.annotatorId,
+      system,
+      rank: ranks[system],
+      score: record.scores[system] ?? '',
+      errors: record.errorSpans ? record.errorSpans.filter(span => span.system === system).length : '',
+      mqm_penalty: record.errorSpans ? spanPenalty(record.errorSpans.filter(span => span.system === system)) : '',
+      translation: record.translations[system] || '',
+      comment: record.comment,
+      agreement: record.agreement ?? '',
+    }))
+  })
+
+  return Papa.unparse(lines, {
+    columns: ['id', 'sentence', 'source_lang', 'target_lang', 'round', 'annotator_id', 'system', 'rank', 'score', 'errors', 'mqm_penalty', 'translation', 'comment', 'agreement'],
+  })
+}
+
+/**
+ * Chosen/rejected pairs implied by each ranking; tied systems never form a pair.
+ * `top-bottom` keeps only the best-versus-worst pair of every ranking.
+ */
+export function toPreferencePairs(records: AnnotationRecord[], mode: PairMode = 'all'): PreferencePair[] {
+  const pairs: PreferencePair[] = []
+
+  records.forEach(record => {
+    const ranks = rankPositions(record.groups)
+    const candidates: [string, string][] = []
+
+    if (mode === 'top-bottom') {
+      // Every system of the best group against every system of the worst group
+      const best = record.groups[0] || []
+      const worst = record.groups.length >= 2 ? record.groups[record.groups.length - 1] : []
+      best.forEach(chosen => worst.forEach(rejected => candidates.push([chosen, rejected])))
+    } else {
+      record.ranking.forEach((better, i) => {
+        record.ranking.slice(i + 1).forEach(worse => candidates.push([better, worse]))
+      })
+    }
+
+    candidates.forEach(([chosen, rejected]) => {
+      if (ranks[chosen] === ranks[rejected]) return
+      pairs.push({
+        id: record.id,
+        sentence: record.sentence,
+        round: record.round,
+        annotatorId: record.annotatorId,
+        chosen_system: chosen,
+        chosen: record.translations[chosen] || '',
+        rejected_system: rejected,
+        rejected: record.translations[rejected] || '',
+        margin: ranks[rejected] - ranks[chosen],
+        score_margin: record.scores[chosen] !== undefined && record.scores[rejected] !== undefined
+          ? record.scores[chosen] - record.scores[rejected]
+          : null,
+      })
+    })
+  })
+
+  return pairs
+}
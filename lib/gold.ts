@@ -0,0 +1,141 @@
+import { languagePairKey, readLanguagePair } from './languages'
+import { shuffle } from './random'
+import { findHeader, getCellValue, normalizeHeader, SheetSnapshot } from './sheet'
+import type { TranslationRow } from './rows'
+import type { BatchLease } from './storage/types'
+import { StudyConfig, studyConfig } from './study-config'
+
+/**
+ * Gold rows are attention checks with a known answer: the sheet names a clearly best system
+ * in `gold_best` and/or a clearly worst one (e.g. a scrambled or empty translation) in `gold_worst`.
+ * They are mixed into batches like any other row, scored on submission and never written to the
+ * sheet, so they take no annotator rounds and stay out of analytics.
+ */
+export interface GoldRow extends TranslationRow {
+  best: string | null
+  worst: string | null
+}
+
+export interface GoldStats {
+  annotatorId: string
+  passed: number
+  total: number
+  accuracy: number
+  flagged: boolean
+}
+
+export function findGoldFields(headers: string[]) {
+  return {
+    bestField: findHeader(headers, ['gold_best', 'gold best']),
+    worstField: findHeader(headers, ['gold_worst', 'gold worst']),
+  }
+}
+
+// Whether a sheet row is a gold item rather than a row to collect rankings for
+export function isGoldRow(row: Record<string, string>, headers: string[]) {
+  const { bestField, worstField } = findGoldFields(headers)
+  return Boolean(getCellValue(row, bestField) || getCellValue(row, worstField))
+}
+
+/**
+ * Reads every gold row of the sheet. Gold rows are a shared pool, so the study's ID filter does not apply;
+ * give them IDs that look like regular rows so annotators cannot tell them apart.
+ */
+export function collectGoldRows(sheet: SheetSnapshot, config: StudyConfig = studyConfig): GoldRow[] {
+  const { headers } = sheet
+  const idField = findHeader(headers, ['id'])
+  const sentenceField = findHeader(headers, ['sentence'])
+  const { bestField, worstField } = findGoldFields(headers)
+  if (!idField || !sentenceField || (!bestField && !worstField)) return []
+
+  const translationFields = config.systems
+    .map(code => ({ code, field: headers.find(header => normalizeHeader(header) === normalizeHeader(code)) }))
+    .filter((entry): entry is { code: string; field: string } => Boolean(entry.field))
+
+  const goldRows: GoldRow[] = []
+  sheet.rows.forEach((row, index) => {
+    const id = getCellValue(row, idField)
+    const sentence = getCellValue(row, sentenceField)
+    const best = getCellValue(row, bestField) || null
+    const worst = getCellValue(row, worstField) || null
+    if (!id || !sentence || (!best && !worst)) return
+
+    // An empty translation can be the deliberately bad one, so keep every system the gold answer refers to
+    const pairs = translationFields
+      .map(({ code, field }) => ({ code, value: getCellValue(row, field) }))
+      .filter(({ code, value }) => value || code === best || code === worst)
+
+    goldRows.push({
+      id,
+      sentence,
+      translations: pairs.map(pair => pair.value),
+      translationColumns: pairs.map(pair => pair.code),
+      originalRowIndex: index + 2,
+      ...readLanguagePair(row, headers),
+      best,
+      worst,
+    })
+  })
+
+  return goldRows
+}
+
+// A gold row passes when the known best system is in the top group and the known worst one in the bottom group
+export function passesGold(gold: Pick<GoldRow, 'best' | 'worst'>, groups: string[][]) {
+  if (groups.length === 0) return false
+  const bestOk = !gold.best || groups[0].includes(gold.best)
+  const worstOk = !gold.worst || groups[groups.length - 1].includes(gold.worst)
+  return bestOk && worstOk
+}
+
+/**
+ * Gold rows for a new batch, preferring ones the annotator has not seen in earlier batches.
+ * Only gold rows of the batch's language pair, or without a language pair, are used.
+ */
+export function pickGoldRows(
+  goldRows: GoldRow[],
+  seenIds: string[],
+  count: number,
+  languagePair = '',
+  random: () => number = Math.random
+): GoldRow[] {
+  const candidates = goldRows.filter(row => [languagePair, ''].includes(languagePairKey(row)))
+  const unseen = shuffle(candidates.filter(row => !seenIds.includes(row.id)), random)
+  const seen = shuffle(candidates.filter(row => seenIds.includes(row.id)), random)
+  return [...unseen, ...seen].slice(0, count)
+}
+
+// Places gold rows at random positions among the regular rows of a batch
+export function mixInGoldRows<T>(rows: T[], goldRows: T[], random: () => number = Math.random): T[] {
+  const mixed = [...rows]
+  goldRows.forEach(goldRow => {
+    mixed.splice(Math.floor(random() * (mixed.length + 1)), 0, goldRow)
+  })
+  return mixed
+}
+
+// Gold accuracy per annotator over the results recorded on their batch leases
+export function computeGoldStats(leases: BatchLease[], config: StudyConfig = studyConfig): GoldStats[] {
+  const totals = new Map<string, { passed: number; total: number }>()
+  leases.forEach(lease => {
+    const results = Object.values(lease.goldResults || {})
+    if (results.length === 0) return
+    const entry = totals.get(lease.annotatorId) || { passed: 0, total: 0 }
+    entry.passed += results.filter(Boolean).length
+    entry.total += results.length
+    totals.set(lease.annotatorId, entry)
+  })
+
+  return Array.from(totals, ([annotatorId, { passed, total }]) => ({
+    annotatorId,
+    passed,
+    total,
+    accuracy: passed / total,
+    flagged: passed / total < config.gold.minAccuracy,
+  }))
+}
+
+// Annotators whose rankings are kept out of analytics and round counting
+export function flaggedAnnotators(leases: BatchLease[], config: StudyConfig = studyConfig): Set<string> {
+  return new Set(computeGoldStats(leases, config).filter(stats => stats.flagged).map(stats => stats.annotatorId))
+}
@@ -0,0 +1,62 @@
+import { findHeader, getCellValue } from './sheet'
+
+/**
+ * Per-row language metadata. Rows name their language pair in optional `source_lang` and
+ * `target_lang` columns (BCP 47 codes such as `en`, `ar`, `pt-BR`); rows without them form
+ * their own pool that any annotator may be given.
+ */
+export interface LanguagePair {
+  sourceLang?: string
+  targetLang?: string
+}
+
+// Primary subtags of scripts written right to left
+const RTL_LANGUAGES = new Set(['ar', 'arc', 'ckb', 'dv', 'fa', 'he', 'iw', 'ks', 'ps', 'sd', 'syr', 'ug', 'ur', 'yi'])
+// Script subtags that override the language default, e.g. `pa-Arab` or `az-Latn`
+const RTL_SCRIPTS = new Set(['arab', 'hebr', 'syrc', 'thaa', 'nkoo', 'adlm', 'rohg'])
+
+export function findLanguageFields(headers: string[]) {
+  return {
+    sourceField: findHeader(headers, ['source_lang', 'source lang', 'src_lang']),
+    targetField: findHeader(headers, ['target_lang', 'target lang', 'tgt_lang']),
+  }
+}
+
+export function readLanguagePair(row: Record<string, string>, headers: string[]): LanguagePair {
+  const { sourceField, targetField } = findLanguageFields(headers)
+  const sourceLang = getCellValue(row, sourceField)
+  const targetLang = getCellValue(row, targetField)
+  return {
+    ...(sourceLang ? { sourceLang } : {}),
+    ...(targetLang ? { targetLang } : {}),
+  }
+}
+
+// "en:ar" style key of a row's pool; empty when the row has no complete language pair
+export function languagePairKey({ sourceLang, targetLang }: LanguagePair) {
+  return sourceLang && targetLang ? `${sourceLang}:${targetLang}`.toLowerCase() : ''
+}
+
+/**
+ * Parses qualifications such as "en:ar,en:pt-br" into pair keys. "en-ar" is accepted as a
+ * shorthand when neither language has a region or script subtag.
+ */
+export function parseLanguagePairs(value: unknown): string[] {
+  const entries = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : []
+  return entries
+    .filter((entry): entry is string => typeof entry === 'string')
+    .map(entry => {
+      const key = entry.trim().toLowerCase()
+      return key.includes(':') ? key : key.replace(/^([a-z]{2,3})-([a-z]{2,3})$/, '$1:$2')
+    })
+    .filter(key => /^[a-z0-9-]+:[a-z0-9-]+$/.test(key))
+}
+
+// Text direction for a language tag; "auto" lets the browser decide when the language is unknown
+export function textDirection(lang: string | undefined): 'ltr' | 'rtl' | 'auto' {
+  if (!lang) return 'auto'
+  const [language, ...subtags] = lang.toLowerCase().split(/[-_]/)
+  const script = subtags.find(subtag => subtag.length === 4)
+  if (script) return RTL_SCRIPTS.has(script) ? 'rtl' : 'ltr'
+  return RTL_LANGUAGES.has(language) ? 'rtl' : 'ltr'
+}
@@ -0,0 +1,56 @@
+import { randomUUID } from 'crypto'
+import type { BatchLease } from './storage/types'
+
+export const LEASE_DURATION_MINUTES = Number(process.env.BATCH_LEASE_MINUTES) || 90
+
+export function isLeaseActive(lease: BatchLease, now = new Date()) {
+  return !lease.completedAt && new Date(lease.expiresAt).getTime() > now.getTime()
+}
+
+export function leasesConflict(a: BatchLease, b: BatchLease) {
+  return a.leaseId !== b.leaseId && a.round === b.round && a.rowIds.some(id => b.rowIds.includes(id))
+}
+
+export function createBatchLease(annotatorId: string, round: number, rowIds: string[], now = new Date()): BatchLease {
+  return {
+    leaseId: randomUUID(),
+    annotatorId,
+    round,
+    rowIds,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + LEASE_DURATION_MINUTES * 60 * 1000).toISOString(),
+  }
+}
+
+/**
+ * Returns why a submission does not match its lease, or null when it does.
+ * An expired lease is still honored as long as none of its rows has been handed to someone else since.
+ */
+export function checkSubmissionAgainstLease(
+  lease: BatchLease | null,
+  annotatorId: string,
+  rowIds: string[],
+  activeLeases: BatchLease[],
+  now = new Date()
+): string | null {
+  if (!lease) {
+    return 'Batch lease not found'
+  }
+  if (lease.completedAt) {
+    return 'Batch lease has already been submitted'
+  }
+  if (lease.annotatorId !== annotatorId) {
+    return 'Batch lease belongs to a different annotator'
+  }
+
+  const unleased = rowIds.filter(id => !lease.rowIds.includes(id) && !lease.goldRowIds?.includes(id))
+  if (unleased.length > 0) {
+    return `Rows not part of this batch: ${unleased.join(', ')}`
+  }
+
+  if (!isLeaseActive(lease, now) && activeLeases.some(other => leasesConflict(lease, other))) {
+    return 'Batch lease expired and its rows were reassigned'
+  }
+
+  return null
+}
@@ -0,0 +1,282 @@
+/**
+ * Message catalog for the annotator interface. Every user-facing string of the annotation page
+ * lives here once per locale; `{name}` placeholders are filled from the params, and messages
+ * with plural forms are picked with `Intl.PluralRules` from the `count` param.
+ */
+
+export const LOCALES = ['en', 'es'] as const
+export type Locale = (typeof LOCALES)[number]
+export const DEFAULT_LOCALE: Locale = 'en'
+
+type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string }
+type Message = string | PluralMessage
+
+const en = {
+  appTitle: 'Translation Ranker',
+  startAnnotating: 'I understand — start annotating',
+  loadingSentences: 'Loading sentences...',
+  pleaseWait: 'Please wait...',
+  loadErrorTitle: 'Error loading data',
+  tryAgain: 'Try Again',
+  errorBanner: 'Error: {message}',
+  subtitleRanking: 'Rank the translations for each sentence (drag to reorder)',
+  subtitlePairwise: 'Compare the translations of each sentence two at a time',
+  annotatingCount: { one: 'You are annotating {count} sentence', other: 'You are annotating {count} sentences' },
+  noSentencesLeft: 'There are no sentences left to annotate right now.',
+  screenoutPrompt: 'Please {link} to end the study.',
+  screenoutLink: 'return to Prolific',
+  thankYouTitle: 'Thank You! 🎉',
+  thankYouSubmitted: 'Your annotations have been successfully submitted.',
+  redirecting: 'Redirecting you to complete the survey...',
+  redirectFallback: 'If you are not redirected automatically, {link}.',
+  redirectLink: 'click here',
+
+  sentenceHeading: 'Sentence {number} - ID: {id}',
+  saved: '✓ Saved',
+  notSaved: 'Not saved: {reason}',
+  notSavedReason: 'Not saved',
+  originalSentence: 'Original Sentence:',
+  compareHeading: 'Compare Translations:',
+  rankHeading: 'Rank Translations (drag to reorder, best first):',
+  rankHeadingWithTies: 'Rank Translations (drag to reorder, best first; use = to tie with the translation above):',
+  tieWithAbove: 'Tie with the translation above',
+  scorePlaceholder: 'Score',
+  scoreRange: 'Score from {min} to {max}',
+  highlightDifferences: 'Highlight differences:',
+  diffOff: 'Off',
+  diffAnchor: 'Compared to an anchor translation (⚓)',
+  diffDisagreement: 'Where the translations disagree',
+  setAnchor: 'Compare the other translations to this one',
+  markErrorsHeading: 'Mark Errors (optional):',
+  commentsHeading: 'Comments:',
+  commentsHeadingOptional: 'Comments (optional):',
+  commentPlaceholder: 'Please explain your reasoning for these rankings. What did you like or dislike about the translation options?',
+
+  submit: 'Submit Annotations',
+  submitting: 'Submitting...',
+  submitted: 'Submitted!',
+  retryUnsaved: { one: 'Retry {count} unsaved sentence', other: 'Retry {count} unsaved sentences' },
+  taskFinishComparisons: 'finish the comparisons',
+  taskReorder: 'reorder the rankings',
+  taskScore: 'score every translation',
+  taskComment: 'add comments',
+  incompleteWarning: {
+    one: '⚠️ Please {tasks} for the sentence.',
+    other: '⚠️ Please {tasks} for each of the {count} sentences.',
+  },
+  unsavedWarning: {
+    one: '⚠️ {count} sentence could not be saved. Your other answers are stored; please retry it.',
+    other: '⚠️ {count} sentences could not be saved. Your other answers are stored; please retry the rest.',
+  },
+  allComplete: '✓ All interactions complete. Your rankings and comments will be saved.',
+
+  alertNoData: 'No data to submit',
+  alertIncomplete: 'Please complete all interactions before submitting:',
+  alertMissingComparisons: { one: '- Finish the comparisons for {count} sentence', other: '- Finish the comparisons for {count} sentences' },
+  alertMissingReranks: { one: '- Reorder rankings for {count} sentence', other: '- Reorder rankings for {count} sentences' },
+  alertMissingComments: { one: '- Add comments for {count} sentence', other: '- Add comments for {count} sentences' },
+  alertMissingScores: { one: '- Score every translation for {count} sentence', other: '- Score every translation for {count} sentences' },
+  alertRankAll: 'Please rank all translations before submitting',
+  alertMissingColumns: 'Error: Some rows are missing column name rankings. Please refresh and try again.',
+  alertEmptyRankings: {
+    one: 'Error: {count} annotation has an empty ranking. Please check the console for details.',
+    other: 'Error: {count} annotations have empty rankings. Please check the console for details.',
+  },
+  errorTranslationText: 'Row {id}: Rankings appear to contain translation text instead of column names. Please refresh and try again.',
+  errorLoadSentences: 'Failed to load sentences',
+  errorLoadData: 'Failed to load data',
+  errorBatchOpenElsewhere: 'Your current batch was opened in another browser. Please finish it there, or come back once it expires.',
+  errorSaveAnnotations: 'Failed to save annotations',
+  errorSubmitAnnotations: 'Failed to submit annotations',
+
+  comparisonPrompt: 'Comparison {number}: which translation is better?',
+  leftBetter: 'Left is better',
+  aboutTheSame: 'About the same',
+  rightBetter: 'Right is better',
+  compareAgain: 'Compare again',
+
+  errorSpansHelp: 'Select the part of a translation that contains an error, or click where something is missing, then add it below.',
+  removeError: 'Remove this error',
+  markOmission: 'Mark omission in translation {number}',
+  addError: 'Add error to translation {number}',
+  selectTextForError: 'Select text to add an error',
+  errorDescription: '{category} ({severity})',
+  category_accuracy: 'accuracy',
+  category_fluency: 'fluency',
+  category_terminology: 'terminology',
+  category_style: 'style',
+  category_omission: 'omission',
+  severity_minor: 'minor',
+  severity_major: 'major',
+  severity_critical: 'critical',
+  serverError_invalid_request: 'The request could not be read. Please refresh the page and try again.',
+  serverError_too_many_annotations: 'Too many sentences were sent at once. Please refresh the page and try again.',
+  serverError_invalid_annotations: 'Some annotations are incomplete or invalid. Please check them and submit again.',
+  serverError_invalid_batch_token: 'This batch could not be verified. Please refresh the page to get a new batch.',
+  serverError_batch_token_expired: 'This batch has expired. Please refresh the page to get a new batch.',
+  serverError_batch_mismatch: 'These sentences do not belong to your current batch. Please refresh the page.',
+  serverError_lease_conflict: 'Your reservation for this batch has expired and the sentences were given to someone else. Please refresh the page.',
+  serverError_reserve_conflict: 'Too many people are starting at the same time. Please try again in a moment.',
+  serverError_not_stored: 'This sentence could not be saved. Please submit again.',
+  serverError_storage_unavailable: 'The annotation storage is not reachable right now. Please try again in a moment.',
+  serverError_server_error: 'Something went wrong on the server. Please try again in a moment.',
+} satisfies Record<string, Message>
+
+export type MessageKey = keyof typeof en
+
+const es: Record<MessageKey, Message> = {
+  appTitle: 'Clasificador de traducciones',
+  startAnnotating: 'Entendido: empezar a anotar',
+  loadingSentences: 'Cargando oraciones...',
+  pleaseWait: 'Espere, por favor...',
+  loadErrorTitle: 'Error al cargar los datos',
+  tryAgain: 'Intentar de nuevo',
+  errorBanner: 'Error: {message}',
+  subtitleRanking: 'Ordene las traducciones de cada oración (arrastre para reordenar)',
+  subtitlePairwise: 'Compare las traducciones de cada oración de dos en dos',
+  annotatingCount: { one: 'Está anotando {count} oración', other: 'Está anotando {count} oraciones' },
+  noSentencesLeft: 'Ahora mismo no quedan oraciones por anotar.',
+  screenoutPrompt: 'Por favor, {link} para terminar el estudio.',
+  screenoutLink: 'vuelva a Prolific',
+  thankYouTitle: '¡Gracias! 🎉',
+  thankYouSubmitted: 'Sus anotaciones se han enviado correctamente.',
+  redirecting: 'Le estamos redirigiendo para completar la encuesta...',
+  redirectFallback: 'Si no se le redirige automáticamente, {link}.',
+  redirectLink: 'haga clic aquí',
+
+  sentenceHeading: 'Oración {number} - ID: {id}',
+  saved: '✓ Guardada',
+  notSaved: 'No guardada: {reason}',
+  notSavedReason: 'No guardada',
+  originalSentence: 'Oración original:',
+  compareHeading: 'Compare las traducciones:',
+  rankHeading: 'Ordene las traducciones (arrastre para reordenar, la mejor primero):',
+  rankHeadingWithTies: 'Ordene las traducciones (arrastre para reordenar, la mejor primero; use = para empatar con la traducción de arriba):',
+  tieWithAbove: 'Empatar con la traducción de arriba',
+  scorePlaceholder: 'Puntuación',
+  scoreRange: 'Puntuación de {min} a {max}',
+  highlightDifferences: 'Resaltar diferencias:',
+  diffOff: 'No',
+  diffAnchor: 'Respecto a una traducción de referencia (⚓)',
+  diffDisagreement: 'Donde las traducciones no coinciden',
+  setAnchor: 'Comparar las demás traducciones con esta',
+  markErrorsHeading: 'Marcar errores (opcional):',
+  commentsHeading: 'Comentarios:',
+  commentsHeadingOptional: 'Comentarios (opcional):',
+  commentPlaceholder: 'Explique el motivo de su clasificación. ¿Qué le gustó o no le gustó de las traducciones?',
+
+  submit: 'Enviar anotaciones',
+  submitting: 'Enviando...',
+  submitted: '¡Enviado!',
+  retryUnsaved: { one: 'Reintentar {count} oración no guardada', other: 'Reintentar {count} oraciones no guardadas' },
+  taskFinishComparisons: 'termine las comparaciones',
+  taskReorder: 'reordene las traducciones',
+  taskScore: 'puntúe cada traducción',
+  taskComment: 'añada comentarios',
+  incompleteWarning: {
+    one: '⚠️ Por favor, {tasks} en la oración.',
+    other: '⚠️ Por favor, {tasks} en cada una de las {count} oraciones.',
+  },
+  unsavedWarning: {
+    one: '⚠️ No se pudo guardar {count} oración. Sus demás respuestas están guardadas; vuelva a intentarlo.',
+    other: '⚠️ No se pudieron guardar {count} oraciones. Sus demás respuestas están guardadas; vuelva a intentar las restantes.',
+  },
+  allComplete: '✓ Todo completado. Se guardarán sus clasificaciones y comentarios.',
+
+  alertNoData: 'No hay datos para enviar',
+  alertIncomplete: 'Complete todas las tareas antes de enviar:',
+  alertMissingComparisons: { one: '- Termine las comparaciones de {count} oración', other: '- Termine las comparaciones de {count} oraciones' },
+  alertMissingReranks: { one: '- Reordene las traducciones de {count} oración', other: '- Reordene las traducciones de {count} oraciones' },
+  alertMissingComments: { one: '- Añada comentarios a {count} oración', other: '- Añada comentarios a {count} oraciones' },
+  alertMissingScores: { one: '- Puntúe cada traducción de {count} oración', other: '- Puntúe cada traducción de {count} oraciones' },
+  alertRankAll: 'Ordene todas las traducciones antes de enviar',
+  alertMissingColumns: 'Error: a algunas filas les falta la clasificación por columnas. Actualice la página e inténtelo de nuevo.',
+  alertEmptyRankings: {
+    one: 'Error: {count} anotación tiene la clasificación vacía. Consulte la consola para más detalles.',
+    other: 'Error: {count} anotaciones tienen la clasificación vacía. Consulte la consola para más detalles.',
+  },
+  errorTranslationText: 'Fila {id}: la clasificación parece contener texto de traducción en lugar de nombres de columna. Actualice la página e inténtelo de nuevo.',
+  errorLoadSentences: 'No se pudieron cargar las oraciones',
+  errorLoadData: 'No se pudieron cargar los datos',
+  errorBatchOpenElsewhere: 'Su lote actual se abrió en otro navegador. Termínelo allí o vuelva cuando caduque.',
+  errorSaveAnnotations: 'No se pudieron guardar las anotaciones',
+  errorSubmitAnnotations: 'No se pudieron enviar las anotaciones',
+
+  comparisonPrompt: 'Comparación {number}: ¿qué traducción es mejor?',
+  leftBetter: 'La izquierda es mejor',
+  aboutTheSame: 'Más o menos igual',
+  rightBetter: 'La derecha es mejor',
+  compareAgain: 'Volver a comparar',
+
+  errorSpansHelp: 'Seleccione la parte de una traducción que contiene un error, o haga clic donde falta algo, y añádalo abajo.',
+  removeError: 'Quitar este error',
+  markOmission: 'Marcar omisión en la traducción {number}',
+  addError: 'Añadir error a la traducción {number}',
+  selectTextForError: 'Seleccione texto para añadir un error',
+  errorDescription: '{category} ({severity})',
+  category_accuracy: 'exactitud',
+  category_fluency: 'fluidez',
+  category_terminology: 'terminología',
+  category_style: 'estilo',
+  category_omission: 'omisión',
+  severity_minor: 'leve',
+  severity_major: 'grave',
+  severity_critical: 'crítico',
+  serverError_invalid_request: 'No se pudo leer la solicitud. Actualice la página e inténtelo de nuevo.',
+  serverError_too_many_annotations: 'Se enviaron demasiadas oraciones a la vez. Actualice la página e inténtelo de nuevo.',
+  serverError_invalid_annotations: 'Algunas anotaciones están incompletas o no son válidas. Revíselas y vuelva a enviarlas.',
+  serverError_invalid_batch_token: 'No se pudo verificar este lote. Actualice la página para obtener un lote nuevo.',
+  serverError_batch_token_expired: 'Este lote ha caducado. Actualice la página para obtener un lote nuevo.',
+  serverError_batch_mismatch: 'Estas oraciones no pertenecen a su lote actual. Actualice la página.',
+  serverError_lease_conflict: 'Su reserva de este lote ha caducado y las oraciones se asignaron a otra persona. Actualice la página.',
+  serverError_reserve_conflict: 'Demasiadas personas están empezando a la vez. Vuelva a intentarlo en un momento.',
+  serverError_not_stored: 'No se pudo guardar esta oración. Vuelva a enviarla.',
+  serverError_storage_unavailable: 'El almacenamiento de anotaciones no está disponible en este momento. Vuelva a intentarlo en un momento.',
+  serverError_server_error: 'Se produjo un error en el servidor. Vuelva a intentarlo en un momento.',
+}
+
+const CATALOGS: Record<Locale, Record<MessageKey, Message>> = { en, es }
+
+export type MessageParams = Record<string, string | number>
+export type Translator = (key: MessageKey, params?: MessageParams) => string
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value)
+}
+
+// The first candidate naming a supported locale ("es", "es-MX", "ES"), else the default
+export function resolveLocale(...candidates: (string | null | undefined)[]): Locale {
+  for (const candidate of candidates) {
+    const language = candidate?.trim().toLowerCase().split(/[-_]/)[0]
+    if (isLocale(language)) return language
+  }
+  return DEFAULT_LOCALE
+}
+
+export function createTranslator(locale: Locale): Translator {
+  const pluralRules = new Intl.PluralRules(locale)
+  return (key, params = {}) => {
+    const message = CATALOGS[locale][key] ?? CATALOGS[DEFAULT_LOCALE][key]
+    const text = typeof message === 'string'
+      ? message
+      : message[pluralRules.select(Number(params.count ?? 0))] ?? message.other
+    return text.replace(/\{(\w+)\}/g, (placeholder, name) => (name in params ? String(params[name]) : placeholder))
+  }
+}
+
+// Catalog key for a `code` returned by the API routes (see `ApiErrorCode`), or null for unknown codes
+export function serverErrorKey(code: unknown): MessageKey | null {
+  const key = `serverError_${code}`
+  return typeof code === 'string' && key in en ? (key as MessageKey) : null
+}
+
+// Joins items as a sentence list in the locale, e.g. "a, b and c" or "a, b y c"
+export function formatList(locale: Locale, items: string[]) {
+  return new Intl.ListFormat(locale, { type: 'conjunction' }).format(items)
+}
+
+// Splits a translated message around a placeholder that is rendered as an element, e.g. a link
+export function splitAtPlaceholder(text: string, name: string): [string, string] {
+  const [before, ...after] = text.split(`{${name}}`)
+  return [before, after.join(`{${name}}`)]
+}
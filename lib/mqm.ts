@@ -0,0 +1,62 @@
+/**
+ * MQM-style error spans: a character range inside one translation, tagged with an error
+ * category and severity. Stored as JSON in `Annotator_N_Errors` next to the ranking.
+ */
+
+export const ERROR_CATEGORIES = ['accuracy', 'fluency', 'terminology', 'style', 'omission'] as const
+export const ERROR_SEVERITIES = ['minor', 'major', 'critical'] as const
+
+export type ErrorCategory = (typeof ERROR_CATEGORIES)[number]
+export type ErrorSeverity = (typeof ERROR_SEVERITIES)[number]
+
+// Penalty points per error, following the usual MQM weighting
+export const SEVERITY_WEIGHTS: Record<ErrorSeverity, number> = { minor: 1, major: 5, critical: 10 }
+
+export interface ErrorSpan {
+  system: string
+  start: number // Offsets into the translation text as a JavaScript string, end exclusive
+  end: number
+  category: ErrorCategory
+  severity: ErrorSeverity
+}
+
+// Keeps the stored cell well below the sheet's per-cell limit
+export const MAX_ERROR_SPANS = 100
+
+const isOffset = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0
+
+/**
+ * Returns the spans when every one lies inside the translation of a known system, otherwise null.
+ * Omissions mark where text is missing, so they may be empty (start === end).
+ */
+export function parseErrorSpans(value: unknown, translations: Record<string, string>): ErrorSpan[] | null {
+  if (!Array.isArray(value) || value.length > MAX_ERROR_SPANS) return null
+  const spans = value.map(item => {
+    const raw = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>
+    const { system, start, end, category, severity } = raw
+    if (
+      typeof system !== 'string' || translations[system] === undefined ||
+      !isOffset(start) || !isOffset(end) || end > translations[system].length ||
+      !ERROR_CATEGORIES.includes(category as ErrorCategory) || !ERROR_SEVERITIES.includes(severity as ErrorSeverity) ||
+      (start >= end && !(start === end && category === 'omission'))
+    ) {
+      return null
+    }
+    return { system, start, end, category, severity } as ErrorSpan
+  })
+  return spans.every(Boolean) ? (spans as ErrorSpan[]) : null
+}
+
+// Null when the cell is empty, so "not annotated" stays distinct from "annotated with no errors" ("[]")
+export function parseErrorSpansCell(value: string, translations: Record<string, string>): ErrorSpan[] | null {
+  if (!value) return null
+  try {
+    return parseErrorSpans(JSON.parse(value), translations)
+  } catch {
+    return null
+  }
+}
+
+export function spanPenalty(spans: ErrorSpan[]) {
+  return spans.reduce((total, span) => total + SEVERITY_WEIGHTS[span.severity], 0)
+}
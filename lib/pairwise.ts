@@ -0,0 +1,90 @@
+/**
+ * Pairwise comparison mode: the annotator only ever judges two translations, and a binary
+ * insertion sort picks the next pair so a full ranking of n systems needs at most
+ * sum(ceil(log2(k + 1))) for k < n judgments (14 for 7 systems, usually fewer).
+ *
+ * Tied systems join the same group, so the result has the same shape as a drag-and-drop
+ * ranking with ties: a flat order plus tie groups.
+ */
+
+export type PairOutcome = 'left' | 'right' | 'tie'
+
+export interface PairJudgment {
+  left: string
+  right: string
+  outcome: PairOutcome
+}
+
+export interface PairwiseState {
+  remaining: string[] // Systems still to insert, in the order they will be inserted
+  groups: string[][] // Systems sorted so far, best group first
+  low: number // Group range [low, high) where the next system belongs
+  high: number
+  judgments: PairJudgment[]
+}
+
+// Starts with the first system already placed; `order` is usually the shuffled display order
+export function startPairwise(order: string[]): PairwiseState {
+  const [first, ...rest] = order
+  return { remaining: rest, groups: first ? [[first]] : [], low: 0, high: first ? 1 : 0, judgments: [] }
+}
+
+export function isPairwiseComplete(state: PairwiseState) {
+  return state.remaining.length === 0
+}
+
+/**
+ * The next pair to show as [left, right], or null when the ranking is complete.
+ * The system being inserted alternates sides so it is not always shown in the same position.
+ */
+export function nextPair(state: PairwiseState): [string, string] | null {
+  if (isPairwiseComplete(state)) return null
+  const candidate = state.remaining[0]
+  const reference = state.groups[Math.floor((state.low + state.high) / 2)][0]
+  return state.judgments.length % 2 === 0 ? [candidate, reference] : [reference, candidate]
+}
+
+// Applies one judgment on the pair returned by `nextPair`
+export function recordJudgment(state: PairwiseState, outcome: PairOutcome): PairwiseState {
+  const pair = nextPair(state)
+  if (!pair) return state
+
+  const [left, right] = pair
+  const candidate = state.remaining[0]
+  const mid = Math.floor((state.low + state.high) / 2)
+  const judgments = [...state.judgments, { left, right, outcome }]
+  const groups = state.groups.map(group => [...group])
+
+  if (outcome === 'tie') {
+    groups[mid].push(candidate)
+  } else {
+    const candidateWins = (outcome === 'left') === (left === candidate)
+    const low = candidateWins ? state.low : mid + 1
+    const high = candidateWins ? mid : state.high
+    if (low < high) {
+      return { ...state, low, high, judgments }
+    }
+    groups.splice(low, 0, [candidate])
+  }
+
+  return { remaining: state.remaining.slice(1), groups, low: 0, high: groups.length, judgments }
+}
+
+export function pairwiseRanking(state: PairwiseState): string[] {
+  return state.groups.flat()
+}
+
+// Compact cell format: "ca>no" (left better), "no<ca" (right better), "ad=bo" (tie)
+export function formatJudgments(judgments: PairJudgment[]) {
+  const symbols: Record<PairOutcome, string> = { left: '>', right: '<', tie: '=' }
+  return judgments.map(({ left, right, outcome }) => `${left}${symbols[outcome]}${right}`).join(',')
+}
+
+export function parseJudgments(value: string): PairJudgment[] {
+  const outcomes: Record<string, PairOutcome> = { '>': 'left', '<': 'right', '=': 'tie' }
+  return value
+    .split(',')
+    .map(entry => entry.trim().match(/^([^<>=]+)([<>=])([^<>=]+)$/))
+    .filter((match): match is RegExpMatchArray => Boolean(match))
+    .map(([, left, symbol, right]) => ({ left: left.trim(), right: right.trim(), outcome: outcomes[symbol] }))
+}
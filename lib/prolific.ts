@@ -0,0 +1,35 @@
+import type { ParticipantInfo } from './storage/types'
+
+export const PROLIFIC_COMPLETION_CODE = process.env.NEXT_PUBLIC_PROLIFIC_COMPLETION_CODE || 'C1HEEFFM'
+export const PROLIFIC_SCREENOUT_CODE = process.env.NEXT_PUBLIC_PROLIFIC_SCREENOUT_CODE || ''
+
+const PROLIFIC_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/
+
+export function prolificCompletionUrl(code: string) {
+  return `https://app.prolific.com/submissions/complete?cc=${encodeURIComponent(code)}`
+}
+
+function cleanId(value: unknown) {
+  return typeof value === 'string' && PROLIFIC_ID_PATTERN.test(value.trim()) ? value.trim() : undefined
+}
+
+// Keeps only well-formed IDs so arbitrary text never reaches the sheet
+export function parseParticipant(value: unknown): ParticipantInfo {
+  if (!value || typeof value !== 'object') return {}
+  const raw = value as Record<string, unknown>
+  return {
+    prolificPid: cleanId(raw.prolificPid),
+    studyId: cleanId(raw.studyId),
+    sessionId: cleanId(raw.sessionId),
+  }
+}
+
+// Reads PROLIFIC_PID, STUDY_ID and SESSION_ID from the landing URL query string
+export function readParticipantFromSearch(search: string): ParticipantInfo {
+  const params = new URLSearchParams(search)
+  return parseParticipant({
+    prolificPid: params.get('PROLIFIC_PID'),
+    studyId: params.get('STUDY_ID'),
+    sessionId: params.get('SESSION_ID'),
+  })
+}
@@ -0,0 +1,37 @@
+// Small seeded PRNG (mulberry32) so analytics and shuffles can be reproduced
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Fresh 32-bit seed for `createRng`
+export function newSeed() {
+  return Math.floor(Math.random() * 4294967296)
+}
+
+// 32-bit FNV-1a hash, for seeds that must follow from an ID (e.g. the same order every time a lease is fetched)
+export function hashSeed(text: string) {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// Unbiased Fisher–Yates shuffle; pass `createRng(seed)` to make it reproducible
+export function shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    const swap = result[i]
+    result[i] = result[j]
+    result[j] = swap
+  }
+  return result
+}
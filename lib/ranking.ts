@@ -0,0 +1,83 @@
+/**
+ * Ranking helpers shared by the annotation page, the stores and analytics.
+ *
+ * A ranking is kept in two forms: the flat order ("ca,no,ad,...") that always fills
+ * `Annotator_N_Rankings`, and tie groups ("ca=no,ad,...") where systems joined by "="
+ * share a rank. Without ties every group holds a single system.
+ */
+
+export type ScoreScale = 'none' | 'percent' | 'likert'
+
+export const SCORE_RANGES: Record<Exclude<ScoreScale, 'none'>, { min: number; max: number }> = {
+  percent: { min: 0, max: 100 },
+  likert: { min: 1, max: 5 },
+}
+
+// system code -> rank (1 = best); tied systems share the average of their positions
+export type RankMap = Record<string, number>
+
+export function singletonGroups(ranking: string[]): string[][] {
+  return ranking.map(code => [code])
+}
+
+// Builds tie groups from the displayed order and the systems marked as tied with the item above
+export function groupsFromOrder(order: string[], tiedWithAbove: Record<string, boolean> = {}): string[][] {
+  const groups: string[][] = []
+  order.forEach((code, index) => {
+    if (index > 0 && tiedWithAbove[code]) {
+      groups[groups.length - 1].push(code)
+    } else {
+      groups.push([code])
+    }
+  })
+  return groups
+}
+
+// Whether tie groups list exactly the systems of the flat ranking, in the same order
+export function tieGroupsMatchRanking(groups: string[][], ranking: string[]) {
+  return groups.every(group => group.length > 0) && groups.flat().join(',') === ranking.join(',')
+}
+
+export function hasTies(groups: string[][]) {
+  return groups.some(group => group.length > 1)
+}
+
+export function formatTieGroups(groups: string[][]) {
+  return groups.map(group => group.join('=')).join(',')
+}
+
+export function parseTieGroups(value: string): string[][] {
+  return value
+    .split(',')
+    .map(group => group.split('=').map(code => code.trim()).filter(Boolean))
+    .filter(group => group.length > 0)
+}
+
+export function formatScores(scores: Record<string, number>) {
+  return Object.entries(scores).map(([code, score]) => `${code}:${score}`).join(',')
+}
+
+export function parseScores(value: string): Record<string, number> {
+  const scores: Record<string, number> = {}
+  value.split(',').forEach(entry => {
+    const [code, score] = entry.split(':').map(part => part.trim())
+    const parsed = Number(score)
+    if (code && score !== undefined && Number.isFinite(parsed)) {
+      scores[code] = parsed
+    }
+  })
+  return scores
+}
+
+export function rankPositions(groups: string[][]): RankMap {
+  const ranks: RankMap = {}
+  let position = 1
+  groups.forEach(group => {
+    const averagePosition = position + (group.length - 1) / 2
+    group.forEach(code => {
+      ranks[code] = averagePosition
+    })
+    position += group.length
+  })
+  return ranks
+}
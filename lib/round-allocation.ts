@@ -0,0 +1,206 @@
+/**
+ * Annotator round rules shared by the API routes, the stores and the Apps Script.
+ * `npm run build:apps-script` compiles this file into the script bundle as `RoundAllocation`,
+ * so it must stay free of runtime imports.
+ */
+
+import type { AuditEvent, BatchLease } from './storage/types'
+
+export const normalizeHeader = (value: string) => value.trim().toLowerCase()
+
+export function findHeader(headers: string[], variants: string[]): string | null {
+  const normalizedVariants = variants.map(normalizeHeader)
+  return headers.find(header => normalizedVariants.includes(normalizeHeader(header))) || null
+}
+
+// Canonical column name written by the stores, e.g. "Annotator_2_Rankings"
+export function annotatorColumnName(round: number, suffix: string) {
+  return `Annotator_${round}_${suffix}`
+}
+
+export function findAnnotatorRankingField(headers: string[], round: number) {
+  return findHeader(headers, [
+    `annotator_${round}_rankings`,
+    `annotator ${round} rankings`,
+    `annotator_${round}`,
+    `annotator ${round}`,
+  ])
+}
+
+export function findAnnotatorCommentField(headers: string[], round: number) {
+  return findHeader(headers, [
+    `annotator_${round}_comments`,
+    `annotator ${round} comments`,
+    `annotator_${round}_comment`,
+    `annotator ${round} comment`,
+  ])
+}
+
+// Every column of one round: its ranking and comment columns plus all `Annotator_N_<suffix>` cells
+export function findRoundFields(headers: string[], round: number) {
+  const prefix = normalizeHeader(annotatorColumnName(round, ''))
+  const ranking = findAnnotatorRankingField(headers, round)
+  const comment = findAnnotatorCommentField(headers, round)
+  return headers.filter(header => header === ranking || header === comment || normalizeHeader(header).startsWith(prefix))
+}
+
+// Rounds used when a script request doesn't list them
+export const DEFAULT_ROUNDS = [1, 2, 3]
+
+// A round counts as filled once its ranking cell holds anything but whitespace
+export function isRoundFilled(rankingCell: unknown) {
+  return String(rankingCell ?? '').trim() !== ''
+}
+
+export interface RowRoundState {
+  countedRounds: number // Filled rounds whose annotator is not excluded
+  complete: boolean // `countedRounds` has reached `requiredRounds`
+  needsAnnotatorRound: number | null // First empty round while the row is incomplete
+}
+
+/**
+ * Works out which round a row needs. `filled[i]` tells whether `rounds[i]` has a ranking and
+ * `counted[i]` whether that ranking counts towards `requiredRounds`.
+ */
+export function rowRoundState(rounds: number[], filled: boolean[], counted: boolean[], requiredRounds: number): RowRoundState {
+  const countedRounds = counted.filter((isCounted, index) => isCounted && filled[index]).length
+  const complete = countedRounds >= requiredRounds
+  const firstOpen = filled.indexOf(false)
+  return {
+    countedRounds,
+    complete,
+    needsAnnotatorRound: complete || firstOpen === -1 ? null : rounds[firstOpen],
+  }
+}
+
+export type RoundSelection = { round: number } | { error: string }
+
+/**
+ * Round an annotation is written to: the leased round when one is requested, which must still
+ * be empty, otherwise the first empty round.
+ */
+export function selectAnnotationRound(
+  rounds: number[],
+  isFilled: (round: number) => boolean,
+  requestedRound?: number | null
+): RoundSelection {
+  if (typeof requestedRound === 'number') {
+    if (!rounds.includes(requestedRound)) {
+      return { error: `Unknown annotator round ${requestedRound}` }
+    }
+    return isFilled(requestedRound)
+      ? { error: `Annotator round ${requestedRound} is already filled for this sentence` }
+      : { round: requestedRound }
+  }
+
+  const round = rounds.find(candidate => !isFilled(candidate))
+  return round === undefined
+    ? { error: `All ${rounds.length} annotator rounds are already filled for this sentence` }
+    : { round }
+}
+
+// Round whose `Annotator_N_Idempotency_Key` cell already holds `key`, or null when it was never stored
+export function findRoundWithKey(rounds: number[], storedKey: (round: number) => string, key?: string | null) {
+  if (!key) return null
+  return rounds.find(round => storedKey(round) === key) ?? null
+}
+
+// One sentence as the stores send it to the Apps Script
+export interface ScriptAnnotation {
+  id: string
+  rowIndex: number
+  rankings: string[]
+  comment?: string
+  round?: number // Leased round; the first empty round when omitted
+  idempotencyKey?: string
+  cells: Record<string, string> // Extra per-round cells, written as `Annotator_N_<key>`
+}
+
+export interface ScriptWriteRequest {
+  sheetName: string
+  rounds: number[]
+  annotations: ScriptAnnotation[]
+}
+
+// Empties every `Annotator_N_*` cell of the listed rounds (see `findRoundFields`)
+export interface ScriptClearRoundsRequest {
+  action: 'clearRounds'
+  sheetName: string
+  cells: { id: string; round: number }[]
+}
+
+// Outcome for one sentence of a write
+export interface AnnotationUpdateResult {
+  id: string
+  success: boolean
+  row?: number
+  round?: number
+  error?: string
+  duplicate?: boolean // Already stored by an earlier write with the same idempotency key
+}
+
+export interface ScriptWriteResponse {
+  success: true
+  updates: AnnotationUpdateResult[]
+}
+
+// Returned by the script instead of a result when a request fails as a whole
+export interface ScriptErrorResponse {
+  error: string
+  details?: string
+}
+
+// Bookkeeping tabs the Apps Script and the Sheets API store share, so a study can switch between the two
+export const LEASES_SHEET_NAME = 'Leases'
+export const LEASE_HEADERS = ['leaseId', 'annotatorId', 'round', 'rowIds', 'createdAt', 'expiresAt', 'completedAt', 'goldRowIds', 'goldResults', 'seed']
+// Audit events are read back from the JSON in `event`; the other columns are for people browsing the tab
+export const AUDIT_SHEET_NAME = 'Audit'
+export const AUDIT_HEADERS = ['eventId', 'type', 'at', 'annotatorId', 'rowId', 'round', 'event']
+
+/**
+ * One `Leases` row as a lease. Row IDs are stored comma-separated and gold results as JSON;
+ * cells may come back as numbers from the Apps Script, so every value is read as text.
+ */
+export function parseLeaseRow(values: unknown[]): BatchLease {
+  const [leaseId, annotatorId, round, rowIds, createdAt, expiresAt, completedAt, goldRowIds, goldResults, seed] =
+    LEASE_HEADERS.map((_, index) => String(values[index] ?? ''))
+  return {
+    leaseId,
+    annotatorId,
+    round: Number(round),
+    rowIds: rowIds.split(',').filter(Boolean),
+    createdAt,
+    expiresAt,
+    ...(completedAt ? { completedAt } : {}),
+    ...(goldRowIds ? { goldRowIds: goldRowIds.split(',').filter(Boolean) } : {}),
+    ...(goldResults ? { goldResults: JSON.parse(goldResults) } : {}),
+    ...(seed ? { seed: Number(seed) } : {}),
+  }
+}
+
+export function leaseRow(lease: BatchLease): string[] {
+  return [
+    lease.leaseId,
+    lease.annotatorId,
+    String(lease.round),
+    lease.rowIds.join(','),
+    lease.createdAt,
+    lease.expiresAt,
+    lease.completedAt || '',
+    (lease.goldRowIds || []).join(','),
+    lease.goldResults ? JSON.stringify(lease.goldResults) : '',
+    lease.seed === undefined ? '' : String(lease.seed),
+  ]
+}
+
+export function auditRow(event: AuditEvent): string[] {
+  return [
+    event.eventId,
+    event.type,
+    event.at,
+    event.type === 'submission' ? event.annotatorId : event.criteria.annotatorId || '',
+    event.type === 'submission' ? event.rowId : '',
+    event.type === 'submission' ? String(event.round) : '',
+    JSON.stringify(event),
+  ]
+}
@@ -0,0 +1,248 @@
+import { rowKendallW } from './analytics/agreement'
+import { collectRankings, roundAnnotatorId } from './annotations'
+import { isGoldRow } from './gold'
+import { LanguagePair, languagePairKey, readLanguagePair } from './languages'
+import { createRng, hashSeed, shuffle } from './random'
+import { isRoundFilled, rowRoundState } from './round-allocation'
+import {
+  findAnnotatorRankingField,
+  findHeader,
+  getCellValue,
+  normalizeHeader,
+  SheetSnapshot,
+} from './sheet'
+import type { BatchLease } from './storage/types'
+import { annotatorRounds, matchesIdFilter, StudyConfig, studyConfig } from './study-config'
+
+export interface TranslationRow extends LanguagePair {
+  id: string
+  sentence: string
+  translations: string[]
+  translationColumns: string[] // Column names (ad, an, bo, ca, op, pa, no) for each translation
+  rankedTranslations?: string[]
+  rankedColumnNames?: string[] // Column names in ranked order
+  originalRowIndex?: number // Store original row index for updating
+}
+
+export interface TranslationRowWithNeeds extends TranslationRow {
+  needsAnnotatorRound: number | null
+  annotatorComplete: boolean[] // Whether each annotator round's ranking cell is filled
+  agreement: number | null // Kendall's W of the counted rankings; null with fewer than two
+  lowAgreement: boolean // Has its required rankings but is kept open because its annotators disagree
+}
+
+export interface RowStatus extends TranslationRowWithNeeds {
+  countedRounds: number // Filled rounds whose annotator is not excluded
+  targetRounds: number // `requiredRounds`, plus `adaptiveRounds.maxRounds` while agreement is low
+  complete: boolean // `countedRounds` has reached `targetRounds`
+}
+
+// How a row's translations were first ordered for one annotator, stored with their annotation
+export interface PresentationOrder {
+  orderSeed: number // Seed of the Fisher–Yates shuffle of the translation columns
+  orderRotation: number // Positions the shuffled order is rotated by (modulo the systems); 0 without counterbalancing
+}
+
+/**
+ * Turns the raw sheet into annotatable rows and works out which annotator round each one needs.
+ * A row is done once `requiredRounds` rankings by non-excluded annotators are filled; rankings by
+ * `excludedAnnotators` keep their column but are replaced through the spare `extraRounds`.
+ * With `adaptiveRounds` enabled, a row whose required rankings agree less than `minAgreement`
+ * stays open for up to `maxRounds` more, until its agreement recovers.
+ * Gold rows and rows outside the ID filter are dropped; done rows are kept with `complete` set.
+ */
+export function collectRowStatuses(
+  sheet: SheetSnapshot,
+  config: StudyConfig = studyConfig,
+  excludedAnnotators: ReadonlySet<string> = new Set()
+): RowStatus[] {
+  const { headers, rows } = sheet
+
+  if (headers.length === 0) {
+    throw new Error('No columns found in sheet data')
+  }
+
+  const idField = findHeader(headers, ['id'])
+  const sentenceField = findHeader(headers, ['sentence'])
+
+  if (!idField || !sentenceField) {
+    throw new Error('Required columns (id, sentence) not found')
+  }
+
+  const translationFields = config.systems
+    .map(code => {
+      const field = headers.find(header => normalizeHeader(header) === normalizeHeader(code))
+      return field ? { field, code } : null
+    })
+    .filter((entry): entry is { field: string; code: string } => Boolean(entry))
+
+  if (translationFields.length === 0) {
+    throw new Error('Translation columns not found in sheet')
+  }
+
+  const rounds = annotatorRounds(config)
+  const annotatorRankFields = rounds.map(num => findAnnotatorRankingField(headers, num))
+
+  const { maxRounds, minAgreement } = config.adaptiveRounds
+  const agreements = new Map<string, number | null>()
+  if (maxRounds > 0) {
+    collectRankings(sheet, config, excludedAnnotators).forEach(row => agreements.set(row.id, rowKendallW(row)))
+  }
+
+  const allRows: RowStatus[] = []
+
+  rows.forEach((row, index) => {
+    const id = getCellValue(row, idField)
+    const sentence = getCellValue(row, sentenceField)
+
+    if (!id || !sentence) {
+      return
+    }
+
+    if (!matchesIdFilter(id, config)) {
+      return
+    }
+
+    if (isGoldRow(row, headers)) {
+      return
+    }
+
+    const translationPairs = translationFields
+      .map(({ field, code }) => {
+        const value = getCellValue(row, field)
+        if (!value) return null
+        return { value, code }
+      })
+      .filter((entry): entry is { value: string; code: string } => Boolean(entry))
+
+    if (translationPairs.length === 0) {
+      return
+    }
+
+    const translations = translationPairs.map(pair => pair.value)
+    const translationColumns = translationPairs.map(pair => pair.code)
+
+    const annotatorRankFilled = annotatorRankFields.map(field => isRoundFilled(getCellValue(row, field)))
+    const counted = rounds.map(round => !excludedAnnotators.has(roundAnnotatorId(sheet, row, round)))
+    const agreement = agreements.get(id) ?? null
+    const required = rowRoundState(rounds, annotatorRankFilled, counted, config.requiredRounds)
+    const lowAgreement = required.complete && agreement !== null && agreement < minAgreement
+    const targetRounds = config.requiredRounds + (lowAgreement ? maxRounds : 0)
+    const { countedRounds, complete, needsAnnotatorRound } = lowAgreement
+      ? rowRoundState(rounds, annotatorRankFilled, counted, targetRounds)
+      : required
+
+    allRows.push({
+      id,
+      sentence,
+      translations,
+      translationColumns,
+      originalRowIndex: index + 2, // account for header row in Google Sheets
+      ...readLanguagePair(row, headers),
+      needsAnnotatorRound,
+      annotatorComplete: annotatorRankFilled,
+      agreement,
+      lowAgreement: lowAgreement && !complete,
+      countedRounds,
+      targetRounds,
+      complete,
+    })
+  })
+
+  return allRows
+}
+
+// The rows that still need an annotator round, as handed out by `selectBatch`
+export function buildTranslationRows(
+  sheet: SheetSnapshot,
+  config: StudyConfig = studyConfig,
+  excludedAnnotators: ReadonlySet<string> = new Set()
+): TranslationRowWithNeeds[] {
+  return collectRowStatuses(sheet, config, excludedAnnotators)
+    .filter(row => !row.complete && row.needsAnnotatorRound !== null)
+    .map(({ countedRounds, targetRounds, complete, ...row }) => row)
+}
+
+// Drops the round bookkeeping before a row is sent to the annotator
+export function toTranslationRow(row: TranslationRowWithNeeds): TranslationRow {
+  const { needsAnnotatorRound, annotatorComplete, agreement, lowAgreement, ...translationRow } = row
+  return translationRow
+}
+
+/**
+ * Picks up to `config.batchSize` random rows from the lowest round that still has unleased rows;
+ * pass `createRng(seed)` as `random` to make the pick reproducible.
+ * Rows kept open for low agreement are only handed out once every other open row is done or
+ * leased, lowest agreement first.
+ * `isLeased(id, round)` reports rows already reserved for another annotator in that round.
+ * A batch never mixes language pairs: rows come from the pool in `languagePairs` (all pools
+ * when null) with the most open rows; rows without a language pair can go to anyone, but
+ * qualified annotators get them only once their own pairs are exhausted.
+ */
+export function selectBatch(
+  allRows: TranslationRowWithNeeds[],
+  isLeased: (id: string, round: number) => boolean = () => false,
+  languagePairs: string[] | null = null,
+  config: StudyConfig = studyConfig,
+  random: () => number = Math.random
+): { round: number; languagePair: string; rows: TranslationRow[] } | null {
+  const freshRows = allRows.filter(row => !row.lowAgreement)
+  const reopenedRows = allRows.filter(row => row.lowAgreement)
+  for (const rows of [freshRows, reopenedRows]) {
+    for (const round of annotatorRounds(config)) {
+      const pools = new Map<string, TranslationRowWithNeeds[]>()
+      rows.forEach(row => {
+        if (row.needsAnnotatorRound !== round || isLeased(row.id, round)) return
+        const pair = languagePairKey(row)
+        if (pair && languagePairs && !languagePairs.includes(pair)) return
+        pools.set(pair, [...(pools.get(pair) || []), row])
+      })
+      if (pools.size === 0) continue
+
+      // Annotators with qualifications get their own pairs before the shared pool of unlabeled rows
+      const preference = ([pair]: [string, unknown]) => (languagePairs && pair ? 1 : 0)
+      const [languagePair, candidateRows] = Array.from(pools)
+        .sort((a, b) => preference(b) - preference(a) || b[1].length - a[1].length)[0]
+
+      const shuffled = shuffle(candidateRows, random)
+      // Sorting is stable, so reopened rows with equal agreement stay in random order
+      if (rows === reopenedRows) shuffled.sort((a, b) => (a.agreement ?? 0) - (b.agreement ?? 0))
+      const selectedRows = shuffled.slice(0, config.batchSize)
+      return { round, languagePair, rows: selectedRows.map(toTranslationRow) }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Starting order of a leased row. Each lease gets its own seed per row, so fetching the lease
+ * again shows the same order. With `counterbalance` every row shares one shuffled base order,
+ * rotated by the sheet row number plus `round - 1`: within a round, any run of n consecutive
+ * rows (n systems) starts each system in each position exactly once, a cyclic Latin square.
+ */
+export function presentationOrder(
+  row: { id: string; rowIndex: number },
+  lease: Pick<BatchLease, 'leaseId' | 'round'>,
+  config: StudyConfig = studyConfig
+): PresentationOrder {
+  return config.counterbalance
+    ? { orderSeed: hashSeed(config.sheetName), orderRotation: row.rowIndex + lease.round - 1 }
+    : { orderSeed: hashSeed(`${lease.leaseId}:${row.id}`), orderRotation: 0 }
+}
+
+// Column indices in the order a `PresentationOrder` shows them
+export function presentationIndices(count: number, { orderSeed, orderRotation }: PresentationOrder) {
+  const shuffled = shuffle(Array.from({ length: count }, (_, idx) => idx), createRng(orderSeed))
+  return shuffled.map((_, position) => shuffled[(position + orderRotation) % count])
+}
+
+// Set the initial order of translations and column names
+export function withShuffledTranslations(row: TranslationRow, order: PresentationOrder): TranslationRow {
+  const shuffledIndices = presentationIndices(row.translations.length, order)
+  return {
+    ...row,
+    rankedTranslations: shuffledIndices.map(idx => row.translations[idx]),
+    rankedColumnNames: shuffledIndices.map(idx => row.translationColumns[idx]),
+  }
+}
@@ -0,0 +1,42 @@
+import Papa from 'papaparse'
+
+/**
+ * In-memory view of the annotation sheet.
+ * `rows[i]` corresponds to sheet row `i + 2` (row 1 holds the headers).
+ */
+export interface SheetSnapshot {
+  headers: string[]
+  rows: Record<string, string>[]
+}
+
+// Header lookups live with the round rules so the Apps Script bundle uses the same variants
+export {
+  annotatorColumnName,
+  findAnnotatorCommentField,
+  findAnnotatorRankingField,
+  findHeader,
+  normalizeHeader,
+} from './round-allocation'
+
+export function getCellValue(row: Record<string, string>, field: string | null | undefined) {
+  if (!field) return ''
+  const raw = row[field]
+  if (raw === undefined || raw === null) return ''
+  return String(raw).trim()
+}
+
+export function parseSheetCsv(csvText: string): SheetSnapshot {
+  const parsed = Papa.parse<Record<string, string>>(csvText, {
+    header: true,
+    skipEmptyLines: true,
+  })
+
+  if (parsed.errors && parsed.errors.length > 0) {
+    console.warn('CSV parse warnings:', parsed.errors.slice(0, 3))
+  }
+
+  const headers = parsed.meta.fields?.filter((field): field is string => Boolean(field && field.trim())) || []
+  const rows = (parsed.data as Record<string, string>[]).filter(row => row && Object.keys(row).length > 0)
+
+  return { headers, rows }
+}
@@ -0,0 +1,159 @@
+import type { ScriptClearRoundsRequest, ScriptWriteRequest, ScriptWriteResponse } from '../round-allocation'
+import { parseSheetCsv, SheetSnapshot } from '../sheet'
+import { annotatorRounds, studyConfig } from '../study-config'
+import { extraRoundCells } from './cells'
+import {
+  AnnotationStore,
+  AnnotationUpdate,
+  AnnotationUpdateResult,
+  AuditEvent,
+  BatchLease,
+  RoundCell,
+  StorageError,
+} from './types'
+
+interface AppsScriptStoreOptions {
+  scriptUrl: string
+  secret: string // Must match the script's APPS_SCRIPT_SECRET property; the web app rejects requests without it
+  sheetId: string
+  sheetGid: string
+}
+
+/**
+ * Reads the sheet through the public CSV export and writes through the
+ * deployed `google-apps-script.js` web app.
+ */
+export class AppsScriptStore implements AnnotationStore {
+  readonly name = 'apps-script'
+
+  constructor(private options: AppsScriptStoreOptions) {}
+
+  async readSheet(): Promise<SheetSnapshot> {
+    const { sheetId, sheetGid } = this.options
+    const csvUrl = `https://docs.google.com/spreadsheets/d/${sheetId}/export?format=csv&gid=${sheetGid}`
+    const response = await fetch(csvUrl, { cache: 'no-store' })
+
+    if (!response.ok) {
+      throw new StorageError('Failed to fetch Google Sheet', { status: 502 })
+    }
+
+    return parseSheetCsv(await response.text())
+  }
+
+  async writeAnnotations(annotations: AnnotationUpdate[]): Promise<AnnotationUpdateResult[]> {
+    const request: ScriptWriteRequest = {
+      sheetName: studyConfig.sheetName,
+      rounds: annotatorRounds(),
+      annotations: annotations.map(ann => ({
+        id: ann.id,
+        rowIndex: ann.rowIndex,
+        rankings: ann.rankings,
+        comment: ann.comment,
+        round: ann.round,
+        idempotencyKey: ann.idempotencyKey,
+        cells: extraRoundCells(ann),
+      })),
+    }
+    const result: Partial<ScriptWriteResponse> = await this.callScript({ ...request })
+    return Array.isArray(result.updates) ? result.updates : []
+  }
+
+  async listLeases(): Promise<BatchLease[]> {
+    const result = await this.callScript({ action: 'listLeases' })
+    return Array.isArray(result.leases) ? result.leases : []
+  }
+
+  async createLease(lease: BatchLease): Promise<boolean> {
+    const result = await this.callScript({ action: 'createLease', lease })
+    return Boolean(result.created)
+  }
+
+  async getLease(leaseId: string): Promise<BatchLease | null> {
+    const result = await this.callScript({ action: 'getLease', leaseId })
+    return result.lease || null
+  }
+
+  async completeLease(leaseId: string, completedAt: string): Promise<void> {
+    await this.callScript({ action: 'completeLease', leaseId, completedAt })
+  }
+
+  async recordGoldResults(leaseId: string, results: Record<string, boolean>): Promise<void> {
+    await this.callScript({ action: 'recordGoldResults', leaseId, results })
+  }
+
+  async appendAuditEvents(events: AuditEvent[]): Promise<void> {
+    if (events.length === 0) return
+    await this.callScript({ action: 'appendAuditEvents', events })
+  }
+
+  async listAuditEvents(): Promise<AuditEvent[]> {
+    const result = await this.callScript({ action: 'listAuditEvents' })
+    return Array.isArray(result.events) ? result.events : []
+  }
+
+  async clearRounds(cells: RoundCell[]): Promise<void> {
+    const request: ScriptClearRoundsRequest = { action: 'clearRounds', sheetName: studyConfig.sheetName, cells }
+    await this.callScript({ ...request })
+  }
+
+  private async callScript(payload: Record<string, unknown>): Promise<any> {
+    let response: Response
+    try {
+      response = await fetch(this.options.scriptUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...payload, secret: this.options.secret }),
+      })
+    } catch (error: any) {
+      throw new StorageError(`Google Apps Script request failed: ${error.message}`)
+    }
+
+    // Get response text for better error messages
+    const responseText = await response.text()
+
+    // Check if response is HTML (indicates authorization page or error)
+    if (responseText.trim().startsWith('<!DOCTYPE') || responseText.trim().startsWith('<html')) {
+      throw new StorageError('Google Apps Script authorization required', {
+        status: 403,
+        details: 'The script needs to be authorized. Please visit the Google Apps Script Web App URL in your browser and authorize it.',
+        hint: 'Visit the GOOGLE_APPS_SCRIPT_URL in a browser, authorize the script, then try again.',
+      })
+    }
+
+    let result
+    try {
+      result = JSON.parse(responseText)
+    } catch (parseError) {
+      throw new StorageError('Invalid response from Google Apps Script', {
+        details: `Expected JSON but received: ${responseText.substring(0, 500)}`,
+        hint: 'The Google Apps Script may need to be redeployed or authorized. Check the script URL and authorization status.',
+      })
+    }
+
+    if (!response.ok) {
+      let errorMessage = `Google Apps Script returned status ${response.status}`
+      if (result.error) {
+        errorMessage = result.error
+      } else if (result.details) {
+        errorMessage = result.details
+      }
+      throw new StorageError(`Google Apps Script request failed: ${errorMessage}`)
+    }
+
+    if (result.error === 'Unauthorized') {
+      throw new StorageError('Google Apps Script rejected the request', {
+        status: 502,
+        details: result.details,
+        hint: 'Set APPS_SCRIPT_SECRET to the same value as the APPS_SCRIPT_SECRET script property.',
+      })
+    }
+
+    if (result.error) {
+      throw new StorageError(`Google Apps Script request failed: ${result.error}`, { details: result.details })
+    }
+
+    return result
+  }
+}
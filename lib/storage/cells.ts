@@ -0,0 +1,28 @@
+import { formatJudgments } from '../pairwise'
+import { formatScores, formatTieGroups, hasTies } from '../ranking'
+import type { AnnotationUpdate } from './types'
+
+/**
+ * Extra cells stored next to `Annotator_N_Rankings` for the round an annotation lands in,
+ * keyed by column suffix (written as `Annotator_N_<suffix>`).
+ */
+export function extraRoundCells(ann: AnnotationUpdate): Record<string, string> {
+  const participant = ann.participant || {}
+  return {
+    Annotator_ID: ann.annotatorId || '',
+    Prolific_PID: participant.prolificPid || '',
+    Study_ID: participant.studyId || '',
+    Session_ID: participant.sessionId || '',
+    // e.g. "ca=no,ad,bo"; empty when the ranking has no ties, so Annotator_N_Rankings alone stays authoritative
+    Ties: ann.tieGroups && hasTies(ann.tieGroups) ? formatTieGroups(ann.tieGroups) : '',
+    Scores: ann.scores ? formatScores(ann.scores) : '',
+    Pairwise: ann.pairwiseJudgments ? formatJudgments(ann.pairwiseJudgments) : '',
+    // JSON list of spans; "[]" records that the annotator checked the translations and found no errors
+    Errors: ann.errorSpans ? JSON.stringify(ann.errorSpans) : '',
+    Telemetry: ann.telemetry ? JSON.stringify(ann.telemetry) : '',
+    Idempotency_Key: ann.idempotencyKey || '',
+    // Reproduce the starting order with `presentationIndices`
+    Order_Seed: ann.orderSeed === undefined ? '' : String(ann.orderSeed),
+    Order_Rotation: ann.orderRotation === undefined ? '' : String(ann.orderRotation),
+  }
+}
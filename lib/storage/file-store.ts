@@ -0,0 +1,255 @@
+import { randomUUID } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import {
+  annotatorColumnName,
+  findAnnotatorCommentField,
+  findAnnotatorRankingField,
+  findHeader,
+  getCellValue,
+  parseSheetCsv,
+  SheetSnapshot,
+} from '../sheet'
+import { isLeaseActive, leasesConflict } from '../leases'
+import { findRoundFields, findRoundWithKey, isRoundFilled, selectAnnotationRound } from '../round-allocation'
+import { annotatorRounds } from '../study-config'
+import { extraRoundCells } from './cells'
+import {
+  AnnotationStore,
+  AnnotationUpdate,
+  AnnotationUpdateResult,
+  AuditEvent,
+  BatchLease,
+  RoundCell,
+  StorageError,
+} from './types'
+
+interface FileStoreData extends SheetSnapshot {
+  leases?: BatchLease[]
+  auditEvents?: AuditEvent[]
+}
+
+interface FileStoreOptions {
+  filePath: string
+  seedCsvPath?: string
+}
+
+// Writes are serialized per file so concurrent requests can't interleave read-modify-write cycles.
+// Next.js bundles every route separately, so the locks have to live outside this module.
+const lockRegistry = globalThis as typeof globalThis & { fileStoreLocks?: Map<string, Promise<unknown>> }
+const fileLocks = lockRegistry.fileStoreLocks || (lockRegistry.fileStoreLocks = new Map<string, Promise<unknown>>())
+
+function withFileLock<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+  const previous = fileLocks.get(filePath) || Promise.resolve()
+  const next = previous.catch(() => undefined).then(task)
+  fileLocks.set(filePath, next)
+  return next
+}
+
+function ensureColumn(sheet: SheetSnapshot, existing: string | null, name: string) {
+  if (existing) return existing
+  sheet.headers.push(name)
+  return name
+}
+
+/**
+ * Keeps the sheet as a JSON file on local disk, seeded from a CSV export on first use.
+ * Applies the same first-empty-round allocation as `doPost` in `google-apps-script.js`.
+ */
+export class FileStore implements AnnotationStore {
+  readonly name = 'file'
+
+  constructor(private options: FileStoreOptions) {}
+
+  async readSheet(): Promise<SheetSnapshot> {
+    const { headers, rows } = await this.load()
+    return { headers, rows }
+  }
+
+  writeAnnotations(annotations: AnnotationUpdate[]): Promise<AnnotationUpdateResult[]> {
+    return withFileLock(this.options.filePath, async () => {
+      const sheet = await this.load()
+      const idField = findHeader(sheet.headers, ['id'])
+      if (!idField) {
+        throw new StorageError('ID column not found in sheet headers')
+      }
+
+      const rounds = annotatorRounds()
+      const roundColumns = rounds.map(round => ({
+        round,
+        rankingField: ensureColumn(sheet, findAnnotatorRankingField(sheet.headers, round), annotatorColumnName(round, 'Rankings')),
+        commentField: ensureColumn(sheet, findAnnotatorCommentField(sheet.headers, round), annotatorColumnName(round, 'Comments')),
+      }))
+
+      const updates: AnnotationUpdateResult[] = annotations.map(ann => {
+        const index = sheet.rows.findIndex(row => getCellValue(row, idField) === ann.id)
+        if (index === -1) {
+          return { id: ann.id, success: false, error: `Row not found for ID: ${ann.id}` }
+        }
+
+        const row = sheet.rows[index]
+        const stored = findRoundWithKey(
+          rounds,
+          round => getCellValue(row, findHeader(sheet.headers, [annotatorColumnName(round, 'Idempotency_Key')])),
+          ann.idempotencyKey
+        )
+        if (stored !== null) {
+          // A retry of a stored submission reports the round it already used
+          return { id: ann.id, row: index + 2, round: stored, success: true, duplicate: true }
+        }
+
+        // Leased submissions must land in the reserved round, never the next free one
+        const selection = selectAnnotationRound(
+          rounds,
+          round => isRoundFilled(getCellValue(row, roundColumns.find(columns => columns.round === round)?.rankingField)),
+          ann.round
+        )
+        if ('error' in selection) {
+          return { id: ann.id, row: index + 2, success: false, error: selection.error }
+        }
+        const target = roundColumns.find(({ round }) => round === selection.round)!
+
+        row[target.rankingField] = ann.rankings.join(',')
+        row[target.commentField] = ann.comment || ''
+        for (const [suffix, value] of Object.entries(extraRoundCells(ann))) {
+          const name = annotatorColumnName(target.round, suffix)
+          row[ensureColumn(sheet, findHeader(sheet.headers, [name]), name)] = value
+        }
+        return { id: ann.id, row: index + 2, round: target.round, success: true }
+      })
+
+      await this.save(sheet)
+      return updates
+    })
+  }
+
+  async listLeases(): Promise<BatchLease[]> {
+    const { leases } = await this.load()
+    return leases || []
+  }
+
+  createLease(lease: BatchLease): Promise<boolean> {
+    return withFileLock(this.options.filePath, async () => {
+      const data = await this.load()
+      const leases = data.leases || []
+      const now = new Date()
+      if (leases.some(other => isLeaseActive(other, now) && leasesConflict(lease, other))) {
+        return false
+      }
+      data.leases = [...leases, lease]
+      await this.save(data)
+      return true
+    })
+  }
+
+  async getLease(leaseId: string): Promise<BatchLease | null> {
+    const leases = await this.listLeases()
+    return leases.find(lease => lease.leaseId === leaseId) || null
+  }
+
+  completeLease(leaseId: string, completedAt: string): Promise<void> {
+    return withFileLock(this.options.filePath, async () => {
+      const data = await this.load()
+      const lease = data.leases?.find(entry => entry.leaseId === leaseId)
+      if (!lease) return
+      lease.completedAt = completedAt
+      await this.save(data)
+    })
+  }
+
+  recordGoldResults(leaseId: string, results: Record<string, boolean>): Promise<void> {
+    return withFileLock(this.options.filePath, async () => {
+      const data = await this.load()
+      const lease = data.leases?.find(entry => entry.leaseId === leaseId)
+      if (!lease) return
+      lease.goldResults = { ...lease.goldResults, ...results }
+      await this.save(data)
+    })
+  }
+
+  appendAuditEvents(events: AuditEvent[]): Promise<void> {
+    return withFileLock(this.options.filePath, async () => {
+      const data = await this.load()
+      data.auditEvents = [...(data.auditEvents || []), ...events]
+      await this.save(data)
+    })
+  }
+
+  async listAuditEvents(): Promise<AuditEvent[]> {
+    const { auditEvents } = await this.load()
+    return auditEvents || []
+  }
+
+  clearRounds(cells: RoundCell[]): Promise<void> {
+    return withFileLock(this.options.filePath, async () => {
+      const data = await this.load()
+      const idField = findHeader(data.headers, ['id'])
+      for (const { id, round } of cells) {
+        const row = data.rows.find(candidate => getCellValue(candidate, idField) === id)
+        if (!row) continue
+        for (const field of findRoundFields(data.headers, round)) {
+          row[field] = ''
+        }
+      }
+      await this.save(data)
+    })
+  }
+
+  private async load(): Promise<FileStoreData> {
+    const { filePath, seedCsvPath } = this.options
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8')) as FileStoreData
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw new StorageError(`Failed to read local store ${filePath}: ${error.message}`)
+      }
+    }
+
+    if (!seedCsvPath) {
+      throw new StorageError(`Local store ${filePath} does not exist and no seed CSV is configured`, {
+        hint: 'Set LOCAL_STORE_SEED_CSV to a CSV export of the sheet.',
+      })
+    }
+
+    let csvText: string
+    try {
+      csvText = await fs.readFile(seedCsvPath, 'utf8')
+    } catch (error: any) {
+      throw new StorageError(`Failed to read seed CSV ${seedCsvPath}: ${error.message}`)
+    }
+
+    const sheet = parseSheetCsv(csvText)
+    return (await this.seed(sheet)) ? sheet : this.load()
+  }
+
+  /**
+   * Creates the store file unless it already exists. Reads seed it outside the file lock, so a
+   * late seed must never replace a file that a locked write has saved in the meantime: linking
+   * the temp file into place fails instead. Returns false when another request seeded first.
+   */
+  private async seed(sheet: FileStoreData) {
+    const tmpPath = await this.writeTempFile(sheet)
+    try {
+      await fs.link(tmpPath, this.options.filePath)
+      return true
+    } catch (error: any) {
+      if (error.code === 'EEXIST') return false
+      throw new StorageError(`Failed to create local store ${this.options.filePath}: ${error.message}`)
+    } finally {
+      await fs.unlink(tmpPath)
+    }
+  }
+
+  private async save(sheet: FileStoreData) {
+    await fs.rename(await this.writeTempFile(sheet), this.options.filePath)
+  }
+
+  // Unique per write, so seeding and saving never share a temp file
+  private async writeTempFile(sheet: FileStoreData) {
+    const { filePath } = this.options
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    const tmpPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`
+    await fs.writeFile(tmpPath, JSON.stringify(sheet, null, 2))
+    return tmpPath
+  }
+}
@@ -0,0 +1,77 @@
+import path from 'path'
+import { AppsScriptStore } from './apps-script-store'
+import { FileStore } from './file-store'
+import { ServiceAccountCredentials, SheetsApiStore } from './sheets-api-store'
+import { AnnotationStore } from './types'
+import { studyConfig } from '../study-config'
+
+export * from './types'
+
+const DEFAULT_GOOGLE_SHEET_ID = '1C28DqXCkz8DqCeuCF5ibNqiq50l4K4XKp5TnjIGPYbU'
+
+let store: AnnotationStore | null = null
+
+function parseServiceAccountKey(value: string): ServiceAccountCredentials {
+  try {
+    const key = JSON.parse(value)
+    if (typeof key.client_email === 'string' && typeof key.private_key === 'string') {
+      return key
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error('GOOGLE_SERVICE_ACCOUNT_KEY must be the JSON key of a service account')
+}
+
+/**
+ * Picks the backend from `ANNOTATION_STORE` ("apps-script", "sheets-api" or "file").
+ * Without it, the Apps Script store is used when `GOOGLE_APPS_SCRIPT_URL` is set, the Sheets API
+ * store when `GOOGLE_SERVICE_ACCOUNT_KEY` is set, and the local file store otherwise.
+ */
+export function getAnnotationStore(): AnnotationStore {
+  if (store) return store
+
+  const scriptUrl = process.env.GOOGLE_APPS_SCRIPT_URL
+  const serviceAccountKey = process.env.GOOGLE_SERVICE_ACCOUNT_KEY
+  const sheetId = process.env.GOOGLE_SHEET_ID || process.env.NEXT_PUBLIC_GOOGLE_SHEET_ID || DEFAULT_GOOGLE_SHEET_ID
+  const kind = process.env.ANNOTATION_STORE || (scriptUrl ? 'apps-script' : serviceAccountKey ? 'sheets-api' : 'file')
+
+  switch (kind) {
+    case 'apps-script':
+      if (!scriptUrl) {
+        throw new Error('ANNOTATION_STORE=apps-script requires GOOGLE_APPS_SCRIPT_URL')
+      }
+      if (!process.env.APPS_SCRIPT_SECRET) {
+        throw new Error('ANNOTATION_STORE=apps-script requires APPS_SCRIPT_SECRET')
+      }
+      store = new AppsScriptStore({
+        scriptUrl,
+        secret: process.env.APPS_SCRIPT_SECRET,
+        sheetId,
+        sheetGid: process.env.GOOGLE_SHEET_GID || process.env.NEXT_PUBLIC_GOOGLE_SHEET_GID || '0',
+      })
+      break
+    case 'sheets-api':
+      // GOOGLE_SHEETS_API_URL points the client at a local stand-in, which needs no service account
+      if (!serviceAccountKey && !process.env.GOOGLE_SHEETS_API_URL) {
+        throw new Error('ANNOTATION_STORE=sheets-api requires GOOGLE_SERVICE_ACCOUNT_KEY')
+      }
+      store = new SheetsApiStore({
+        spreadsheetId: sheetId,
+        sheetName: studyConfig.sheetName,
+        credentials: serviceAccountKey ? parseServiceAccountKey(serviceAccountKey) : undefined,
+        rootUrl: process.env.GOOGLE_SHEETS_API_URL,
+      })
+      break
+    case 'file':
+      store = new FileStore({
+        filePath: path.resolve(process.env.LOCAL_STORE_PATH || 'data/annotations.json'),
+        seedCsvPath: path.resolve(process.env.LOCAL_STORE_SEED_CSV || 'sample_data.csv'),
+      })
+      break
+    default:
+      throw new Error(`Unknown ANNOTATION_STORE: ${kind}`)
+  }
+
+  return store
+}
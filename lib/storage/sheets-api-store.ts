@@ -0,0 +1,396 @@
+import { auth as googleAuth, sheets, sheets_v4 } from 'googleapis/build/src/apis/sheets'
+import {
+  annotatorColumnName,
+  findAnnotatorCommentField,
+  findAnnotatorRankingField,
+  findHeader,
+  SheetSnapshot,
+} from '../sheet'
+import { isLeaseActive, leasesConflict } from '../leases'
+import {
+  AUDIT_HEADERS,
+  AUDIT_SHEET_NAME,
+  auditRow,
+  findRoundFields,
+  findRoundWithKey,
+  isRoundFilled,
+  LEASE_HEADERS,
+  LEASES_SHEET_NAME,
+  leaseRow,
+  parseLeaseRow,
+  selectAnnotationRound,
+} from '../round-allocation'
+import { annotatorRounds } from '../study-config'
+import { extraRoundCells } from './cells'
+import {
+  AnnotationStore,
+  AnnotationUpdate,
+  AnnotationUpdateResult,
+  AuditEvent,
+  BatchLease,
+  RoundCell,
+  StorageError,
+} from './types'
+
+const SCOPES = ['https://www.googleapis.com/auth/spreadsheets']
+
+// Fields of a service account JSON key that the client needs
+export interface ServiceAccountCredentials {
+  client_email: string
+  private_key: string
+}
+
+interface SheetsApiStoreOptions {
+  spreadsheetId: string
+  sheetName: string
+  credentials?: ServiceAccountCredentials // Requests are sent unauthenticated without them, e.g. to a local stand-in
+  rootUrl?: string // Base URL of the Sheets API; defaults to https://sheets.googleapis.com/
+}
+
+interface CellChange {
+  row: number // 0-based grid row; 0 is the header row
+  column: number // 0-based grid column
+  value: string
+}
+
+// Read-modify-write cycles are serialized within this server process only. Writes from separate
+// instances are read back afterwards, which catches some clashes but not all (see `writeAnnotations`)
+let queue: Promise<unknown> = Promise.resolve()
+
+function withSheetLock<T>(task: () => Promise<T>): Promise<T> {
+  const next = queue.catch(() => undefined).then(task)
+  queue = next
+  return next
+}
+
+// A1 column letters for a 0-based column index, e.g. 0 -> "A", 27 -> "AB"
+function columnLetter(index: number) {
+  let letters = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters
+  }
+  return letters
+}
+
+const quoteSheetName = (name: string) => `'${name.replace(/'/g, "''")}'`
+
+const cellRange = (sheetName: string, row: number, column: number) =>
+  `${quoteSheetName(sheetName)}!${columnLetter(column)}${row + 1}`
+
+const cellText = (grid: string[][], row: number, column: number) => String(grid[row]?.[column] ?? '').trim()
+
+/**
+ * Reads and writes the spreadsheet directly through the Google Sheets API with a service account.
+ * Applies the same first-empty-round allocation as `doPost` in `google-apps-script.js` and sends
+ * each submission's cells in one `values.batchUpdate`.
+ */
+export class SheetsApiStore implements AnnotationStore {
+  readonly name = 'sheets-api'
+  private api: sheets_v4.Sheets
+  private sheetsReady = new Map<string, Promise<void>>()
+
+  constructor(private options: SheetsApiStoreOptions) {
+    this.api = sheets({
+      version: 'v4',
+      auth: options.credentials
+        ? new googleAuth.GoogleAuth({ credentials: options.credentials, scopes: SCOPES })
+        : undefined,
+      ...(options.rootUrl ? { rootUrl: options.rootUrl.replace(/\/?$/, '/') } : {}),
+    })
+  }
+
+  async readSheet(): Promise<SheetSnapshot> {
+    const [headerRow = [], ...rows] = await this.readGrid(this.options.sheetName)
+    const headers = headerRow.filter(header => header.trim())
+    return {
+      headers,
+      rows: rows.map(values => Object.fromEntries(
+        headerRow.map((header, index) => [header, values[index] ?? '']).filter(([header]) => header.trim())
+      )),
+    }
+  }
+
+  writeAnnotations(annotations: AnnotationUpdate[]): Promise<AnnotationUpdateResult[]> {
+    return withSheetLock(async () => {
+      const { sheetName } = this.options
+      const grid = await this.readGrid(sheetName)
+      const headers = grid[0] || []
+      const idColumn = headers.indexOf(findHeader(headers, ['id']) || '')
+      if (idColumn === -1) {
+        throw new StorageError('ID column not found in sheet headers')
+      }
+
+      const changes: CellChange[] = []
+      const setCell = (row: number, column: number, value: string) => {
+        grid[row] = grid[row] || []
+        grid[row][column] = value
+        changes.push({ row, column, value })
+      }
+      const ensureColumn = (existing: string | null, name: string) => {
+        if (existing) return headers.indexOf(existing)
+        setCell(0, headers.length, name)
+        return headers.length - 1
+      }
+
+      const rounds = annotatorRounds()
+      const roundColumns = rounds.map(round => ({
+        round,
+        rankingColumn: ensureColumn(findAnnotatorRankingField(headers, round), annotatorColumnName(round, 'Rankings')),
+        commentColumn: ensureColumn(findAnnotatorCommentField(headers, round), annotatorColumnName(round, 'Comments')),
+      }))
+
+      // Cells each annotation wrote, checked against the sheet once the batch is sent
+      const written: CellChange[][] = []
+      const updates: AnnotationUpdateResult[] = annotations.map((ann, position) => {
+        const row = grid.findIndex((values, index) => index > 0 && cellText(grid, index, idColumn) === ann.id)
+        if (row === -1) {
+          return { id: ann.id, success: false, error: `Row not found for ID: ${ann.id}` }
+        }
+
+        const stored = findRoundWithKey(
+          rounds,
+          round => {
+            const keyField = findHeader(headers, [annotatorColumnName(round, 'Idempotency_Key')])
+            return keyField === null ? '' : cellText(grid, row, headers.indexOf(keyField))
+          },
+          ann.idempotencyKey
+        )
+        if (stored !== null) {
+          // A retry of a stored submission reports the round it already used
+          return { id: ann.id, row: row + 1, round: stored, success: true, duplicate: true }
+        }
+
+        // Leased submissions must land in the reserved round, never the next free one
+        const selection = selectAnnotationRound(
+          rounds,
+          round => isRoundFilled(grid[row]?.[roundColumns.find(columns => columns.round === round)!.rankingColumn]),
+          ann.round
+        )
+        if ('error' in selection) {
+          return { id: ann.id, row: row + 1, success: false, error: selection.error }
+        }
+        const target = roundColumns.find(({ round }) => round === selection.round)!
+
+        const start = changes.length
+        setCell(row, target.rankingColumn, ann.rankings.join(','))
+        setCell(row, target.commentColumn, ann.comment || '')
+        for (const [suffix, value] of Object.entries(extraRoundCells(ann))) {
+          const name = annotatorColumnName(target.round, suffix)
+          setCell(row, ensureColumn(findHeader(headers, [name]), name), value)
+        }
+        written[position] = changes.slice(start).filter(change => change.row === row)
+        return { id: ann.id, row: row + 1, round: target.round, success: true }
+      })
+
+      if (changes.length > 0) {
+        await this.ensureColumnCount(sheetName, headers.length)
+        await this.request('write annotations', () => this.api.spreadsheets.values.batchUpdate({
+          spreadsheetId: this.options.spreadsheetId,
+          requestBody: {
+            // RAW keeps comments such as "=1+1" from being evaluated as formulas
+            valueInputOption: 'RAW',
+            data: changes.map(({ row, column, value }) => ({ range: cellRange(sheetName, row, column), values: [[value]] })),
+          },
+        }))
+      }
+      if (written.length === 0) return updates
+
+      // Another instance may have filled the same round in between; whichever submission's
+      // cells are on the sheet afterwards keeps the round, and the other one is reported as failed.
+      // This is best effort: when this read-back happens before the other instance writes, both
+      // submissions are reported stored and the later write silently replaces this one
+      const stored = await this.readGrid(sheetName)
+      return updates.map((update, index) => {
+        const cells = written[index]
+        if (!cells || cells.every(({ row, column, value }) => cellText(stored, row, column) === value.trim())) {
+          return update
+        }
+        return {
+          id: update.id,
+          row: update.row,
+          success: false,
+          error: `Annotator round ${update.round} was filled by a concurrent submission`,
+        }
+      })
+    })
+  }
+
+  async listLeases(): Promise<BatchLease[]> {
+    await this.ensureSheet(LEASES_SHEET_NAME, LEASE_HEADERS)
+    const [, ...rows] = await this.readGrid(LEASES_SHEET_NAME)
+    return rows.filter(values => values[0]).map(parseLeaseRow)
+  }
+
+  createLease(lease: BatchLease): Promise<boolean> {
+    return withSheetLock(async () => {
+      const leases = await this.listLeases()
+      const now = new Date()
+      if (leases.some(other => isLeaseActive(other, now) && leasesConflict(lease, other))) {
+        return false
+      }
+      await this.request('create lease', () => this.api.spreadsheets.values.append({
+        spreadsheetId: this.options.spreadsheetId,
+        range: `${quoteSheetName(LEASES_SHEET_NAME)}!A1`,
+        valueInputOption: 'RAW',
+        insertDataOption: 'INSERT_ROWS',
+        requestBody: { values: [leaseRow(lease)] },
+      }))
+
+      // Another instance may have appended a conflicting lease in between. The row appended first
+      // wins; a later one is rolled back by expiring it, which keeps the row positions stable
+      const appended = await this.listLeases()
+      const position = appended.findIndex(other => other.leaseId === lease.leaseId)
+      const clash = position > 0 && appended
+        .slice(0, position)
+        .some(other => isLeaseActive(other, now) && leasesConflict(lease, other))
+      if (clash) {
+        await this.writeLease(position, { ...lease, expiresAt: lease.createdAt })
+        return false
+      }
+      return true
+    })
+  }
+
+  async getLease(leaseId: string): Promise<BatchLease | null> {
+    const leases = await this.listLeases()
+    return leases.find(lease => lease.leaseId === leaseId) || null
+  }
+
+  completeLease(leaseId: string, completedAt: string): Promise<void> {
+    return this.updateLease(leaseId, () => ({ completedAt }))
+  }
+
+  recordGoldResults(leaseId: string, results: Record<string, boolean>): Promise<void> {
+    return this.updateLease(leaseId, lease => ({ goldResults: { ...lease.goldResults, ...results } }))
+  }
+
+  async appendAuditEvents(events: AuditEvent[]): Promise<void> {
+    if (events.length === 0) return
+    await this.ensureSheet(AUDIT_SHEET_NAME, AUDIT_HEADERS)
+    await this.request('append audit events', () => this.api.spreadsheets.values.append({
+      spreadsheetId: this.options.spreadsheetId,
+      range: `${quoteSheetName(AUDIT_SHEET_NAME)}!A1`,
+      valueInputOption: 'RAW',
+      insertDataOption: 'INSERT_ROWS',
+      requestBody: { values: events.map(auditRow) },
+    }))
+  }
+
+  async listAuditEvents(): Promise<AuditEvent[]> {
+    await this.ensureSheet(AUDIT_SHEET_NAME, AUDIT_HEADERS)
+    const [, ...rows] = await this.readGrid(AUDIT_SHEET_NAME)
+    const eventColumn = AUDIT_HEADERS.indexOf('event')
+    return rows.filter(values => values[eventColumn]).map(values => JSON.parse(values[eventColumn]))
+  }
+
+  clearRounds(cells: RoundCell[]): Promise<void> {
+    return withSheetLock(async () => {
+      const { sheetName } = this.options
+      const grid = await this.readGrid(sheetName)
+      const headers = grid[0] || []
+      const idColumn = headers.indexOf(findHeader(headers, ['id']) || '')
+      const ranges = cells.flatMap(({ id, round }) => {
+        const row = grid.findIndex((values, index) => index > 0 && cellText(grid, index, idColumn) === id)
+        if (idColumn === -1 || row === -1) return []
+        return findRoundFields(headers, round).map(field => cellRange(sheetName, row, headers.indexOf(field)))
+      })
+      if (ranges.length === 0) return
+      await this.request('clear rounds', () => this.api.spreadsheets.values.batchClear({
+        spreadsheetId: this.options.spreadsheetId,
+        requestBody: { ranges },
+      }))
+    })
+  }
+
+  // Rewrites one lease row with the changed fields
+  private updateLease(leaseId: string, change: (lease: BatchLease) => Partial<BatchLease>): Promise<void> {
+    return withSheetLock(async () => {
+      const leases = await this.listLeases()
+      const index = leases.findIndex(lease => lease.leaseId === leaseId)
+      if (index === -1) return
+      await this.writeLease(index, { ...leases[index], ...change(leases[index]) })
+    })
+  }
+
+  // Overwrites the lease at a 0-based position below the header row
+  private async writeLease(index: number, lease: BatchLease) {
+    await this.request('update lease', () => this.api.spreadsheets.values.update({
+      spreadsheetId: this.options.spreadsheetId,
+      range: `${cellRange(LEASES_SHEET_NAME, index + 1, 0)}:${columnLetter(LEASE_HEADERS.length - 1)}${index + 2}`,
+      valueInputOption: 'RAW',
+      requestBody: { values: [leaseRow(lease)] },
+    }))
+  }
+
+  // Every cell of a tab as text, rows padded to the header width
+  private async readGrid(sheetName: string): Promise<string[][]> {
+    const data = await this.request(`read ${sheetName}`, () => this.api.spreadsheets.values.get({
+      spreadsheetId: this.options.spreadsheetId,
+      range: quoteSheetName(sheetName),
+      valueRenderOption: 'FORMATTED_VALUE',
+    }))
+    const grid = (data.values || []).map(values => values.map(value => String(value ?? '')))
+    const width = grid[0]?.length || 0
+    return grid.map(values => values.length < width ? [...values, ...Array(width - values.length).fill('')] : values)
+  }
+
+  // New header cells beyond the tab's grid would be rejected, so the grid is widened first
+  private async ensureColumnCount(sheetName: string, count: number) {
+    const properties = await this.sheetProperties(sheetName)
+    const current = properties?.gridProperties?.columnCount ?? count
+    if (!properties || current >= count) return
+    await this.request(`widen ${sheetName}`, () => this.api.spreadsheets.batchUpdate({
+      spreadsheetId: this.options.spreadsheetId,
+      requestBody: {
+        requests: [{ appendDimension: { sheetId: properties.sheetId, dimension: 'COLUMNS', length: count - current } }],
+      },
+    }))
+  }
+
+  // Creates a bookkeeping tab (Leases, Audit) with its header row the first time it is used
+  private ensureSheet(sheetName: string, headers: string[]): Promise<void> {
+    let ready = this.sheetsReady.get(sheetName)
+    if (!ready) {
+      ready = (async () => {
+        if (await this.sheetProperties(sheetName)) return
+        await this.request(`create the ${sheetName} tab`, () => this.api.spreadsheets.batchUpdate({
+          spreadsheetId: this.options.spreadsheetId,
+          requestBody: { requests: [{ addSheet: { properties: { title: sheetName } } }] },
+        }))
+        await this.request(`write ${sheetName} headers`, () => this.api.spreadsheets.values.update({
+          spreadsheetId: this.options.spreadsheetId,
+          range: `${quoteSheetName(sheetName)}!A1`,
+          valueInputOption: 'RAW',
+          requestBody: { values: [headers] },
+        }))
+      })()
+      // A failed attempt is retried on the next call
+      ready.catch(() => this.sheetsReady.delete(sheetName))
+      this.sheetsReady.set(sheetName, ready)
+    }
+    return ready
+  }
+
+  private async sheetProperties(sheetName: string) {
+    const data = await this.request('read spreadsheet properties', () => this.api.spreadsheets.get({
+      spreadsheetId: this.options.spreadsheetId,
+      fields: 'sheets.properties',
+    }))
+    return data.sheets?.find(sheet => sheet.properties?.title === sheetName)?.properties || null
+  }
+
+  private async request<T>(action: string, send: () => Promise<{ data: T }>): Promise<T> {
+    try {
+      return (await send()).data
+    } catch (error: any) {
+      const status = Number(error.code || error.response?.status)
+      throw new StorageError(`Google Sheets API failed to ${action}: ${error.message}`, {
+        status: 502,
+        details: error.response?.data ? JSON.stringify(error.response.data).substring(0, 500) : undefined,
+        hint: status === 403 || status === 404
+          ? 'Share the spreadsheet with the service account\'s client_email as an editor and check GOOGLE_SHEET_ID.'
+          : undefined,
+      })
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import type { ErrorSpan } from '../mqm'
+import type { AnnotationUpdateResult } from '../round-allocation'
+import type { PairJudgment } from '../pairwise'
+import type { SheetSnapshot } from '../sheet'
+import type { ItemTelemetry } from '../telemetry'
+
+// Prolific identifiers taken from the landing URL
+export interface ParticipantInfo {
+  prolificPid?: string
+  studyId?: string
+  sessionId?: string
+}
+
+export interface AnnotationUpdate {
+  id: string
+  rowIndex: number
+  rankings: string[] // Ordered list of column names (e.g., ["ca", "no", "ad", "an", "bo", "pa", "op"])
+  comment?: string // Optional comment explaining the rankings
+  round?: number // Annotator round to write; the first empty round is used when omitted
+  annotatorId?: string // Lease holder, stored so rankings can be traced back to the annotator
+  participant?: ParticipantInfo
+  tieGroups?: string[][] // Same order as `rankings`, with tied systems grouped together
+  scores?: Record<string, number> // Optional graded score per system
+  pairwiseJudgments?: PairJudgment[] // Raw judgments when the ranking came from pairwise comparisons
+  errorSpans?: ErrorSpan[] // MQM error spans marked in the translations
+  telemetry?: ItemTelemetry // How the annotator worked on the sentence (time on task, drags, orderings)
+  idempotencyKey?: string // Stored with the round; a later write with the same key reports that round instead of filling another
+  orderSeed?: number // Seed of the starting order the annotator saw (see `presentationOrder`)
+  orderRotation?: number
+}
+
+export type { AnnotationUpdateResult }
+
+// Reservation of a batch of rows for one annotator in one round
+export interface BatchLease {
+  leaseId: string
+  annotatorId: string
+  round: number
+  rowIds: string[]
+  createdAt: string
+  expiresAt: string
+  completedAt?: string
+  goldRowIds?: string[] // Hidden attention-check rows served with the batch; not reserved
+  goldResults?: Record<string, boolean> // Gold row ID -> whether the annotator passed it
+  seed?: number // Seed the rows and gold rows were picked with
+}
+
+// Sentence stored by one submission, as recorded in the audit log
+export interface SubmissionEvent {
+  type: 'submission'
+  eventId: string
+  at: string
+  annotatorId: string
+  leaseId: string
+  rowId: string
+  round: number
+  payload: AnnotationUpdate // Everything written to the round's cells
+}
+
+// Admin action that voided earlier submissions and emptied their rounds
+export interface InvalidationEvent {
+  type: 'invalidation'
+  eventId: string
+  at: string
+  criteria: InvalidationCriteria
+  reason?: string
+  eventIds: string[] // Submission events voided by this action
+}
+
+export interface InvalidationCriteria {
+  annotatorId?: string
+  from?: string // Inclusive ISO timestamp
+  to?: string // Exclusive ISO timestamp
+}
+
+export type AuditEvent = SubmissionEvent | InvalidationEvent
+
+// One annotator round of one sheet row
+export interface RoundCell {
+  id: string
+  round: number
+}
+
+/**
+ * Backend that holds the annotation sheet.
+ * The loader reads rows through `readSheet`, the update route persists through `writeAnnotations`.
+ */
+export interface AnnotationStore {
+  readonly name: string
+  readSheet(): Promise<SheetSnapshot>
+  writeAnnotations(annotations: AnnotationUpdate[]): Promise<AnnotationUpdateResult[]>
+  listLeases(): Promise<BatchLease[]>
+  // Records the lease unless one of its rows is already held by an active lease for the same round
+  createLease(lease: BatchLease): Promise<boolean>
+  getLease(leaseId: string): Promise<BatchLease | null>
+  completeLease(leaseId: string, completedAt: string): Promise<void>
+  // Merges gold row outcomes into the lease; resubmitting a gold row overwrites its earlier result
+  recordGoldResults(leaseId: string, results: Record<string, boolean>): Promise<void>
+  // The audit log is append-only: events are never changed or removed
+  appendAuditEvents(events: AuditEvent[]): Promise<void>
+  listAuditEvents(): Promise<AuditEvent[]>
+  // Empties every `Annotator_N_*` cell of the given rounds so they can be filled again
+  clearRounds(cells: RoundCell[]): Promise<void>
+}
+
+export class StorageError extends Error {
+  status: number
+  details?: string
+  hint?: string
+
+  constructor(message: string, options: { status?: number; details?: string; hint?: string } = {}) {
+    super(message)
+    this.name = 'StorageError'
+    this.status = options.status ?? 500
+    this.details = options.details
+    this.hint = options.hint
+  }
+}
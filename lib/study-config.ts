@@ -0,0 +1,209 @@
+import rawStudyConfig from '../study.config.json'
+import type { SpeedThresholds } from './analytics/telemetry'
+import { parseLanguagePairs } from './languages'
+import { isLocale, Locale, LOCALES } from './messages'
+import { SCORE_RANGES, ScoreScale } from './ranking'
+
+/**
+ * Per-study settings shared by the annotation page, the API routes and the stores.
+ * Edit `study.config.json` to set up a new study.
+ */
+export type TaskMode = 'ranking' | 'pairwise'
+
+export interface StudyConfig {
+  systems: string[] // Translation column codes, in sheet order
+  idFilter: {
+    min?: number // Lowest numeric part of the row ID to include
+    max?: number // Highest numeric part of the row ID to include
+    pattern?: string // Regular expression the full row ID must match
+  }
+  batchSize: number
+  requiredRounds: number
+  extraRounds: number // Spare annotator rounds that replace rankings excluded from round counting
+  adaptiveRounds: {
+    maxRounds: number // Further rounds a row may get while its annotators disagree; 0 disables them
+    minAgreement: number // Kendall's W below which a row with its required rankings stays open
+  }
+  requireComments: boolean
+  taskMode: TaskMode // Drag-and-drop ranking, or one pair of translations at a time
+  allowTies: boolean // Annotators may group translations into the same rank
+  scoreScale: ScoreScale // Optional graded score per translation: 0–100 ("percent") or 1–5 ("likert")
+  errorSpans: boolean // Annotators may mark MQM error spans inside each translation
+  counterbalance: boolean // Latin-square starting orders: each round of a row rotates the same shuffled order
+  gold: {
+    perBatch: number // Hidden gold rows mixed into each batch; 0 disables attention checks
+    minAccuracy: number // Annotators passing a smaller share of their gold rows are flagged
+  }
+  speedThresholds: SpeedThresholds // Time-on-task limits below which the telemetry report flags a submission
+  defaultLanguagePairs: string[] // Qualifications of annotators whose study URL sets no ?pairs=, e.g. ["en:ar"]
+  sheetName: string
+  locale: Locale // Interface language unless the study URL sets ?locale=
+  intro: Partial<Record<Locale, string[]>> // Paragraphs shown before annotation starts, per locale
+}
+
+export class StudyConfigError extends Error {
+  problems: string[]
+
+  constructor(problems: string[]) {
+    super(`Invalid study configuration:\n- ${problems.join('\n- ')}`)
+    this.name = 'StudyConfigError'
+    this.problems = problems
+  }
+}
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0
+
+const isNonNegativeInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0
+
+const isOptionalNumber = (value: unknown) => value === undefined || (typeof value === 'number' && Number.isFinite(value))
+
+export function parseStudyConfig(raw: unknown): StudyConfig {
+  const problems: string[] = []
+  const config = (raw && typeof raw === 'object' ? raw : {}) as Record<string, any>
+
+  const systems = config.systems
+  if (!Array.isArray(systems) || systems.length < 2 || !systems.every(code => typeof code === 'string' && code.trim())) {
+    problems.push('systems must list at least two translation column codes')
+  } else if (new Set(systems.map((code: string) => code.trim().toLowerCase())).size !== systems.length) {
+    problems.push('systems must not contain duplicates')
+  }
+
+  const idFilter = config.idFilter ?? {}
+  if (typeof idFilter !== 'object' || Array.isArray(idFilter)) {
+    problems.push('idFilter must be an object')
+  } else {
+    if (!isOptionalNumber(idFilter.min)) problems.push('idFilter.min must be a number')
+    if (!isOptionalNumber(idFilter.max)) problems.push('idFilter.max must be a number')
+    if (typeof idFilter.min === 'number' && typeof idFilter.max === 'number' && idFilter.min > idFilter.max) {
+      problems.push('idFilter.min must not be greater than idFilter.max')
+    }
+    if (idFilter.pattern !== undefined) {
+      try {
+        new RegExp(idFilter.pattern)
+      } catch {
+        problems.push(`idFilter.pattern is not a valid regular expression: ${idFilter.pattern}`)
+      }
+    }
+  }
+
+  if (!isPositiveInteger(config.batchSize)) problems.push('batchSize must be a positive integer')
+  if (!isPositiveInteger(config.requiredRounds)) problems.push('requiredRounds must be a positive integer')
+  const extraRounds = config.extraRounds ?? 0
+  if (!isNonNegativeInteger(extraRounds)) problems.push('extraRounds must be a non-negative integer')
+  const adaptiveRounds = config.adaptiveRounds ?? {}
+  const adaptiveMaxRounds = adaptiveRounds.maxRounds ?? 0
+  const adaptiveMinAgreement = adaptiveRounds.minAgreement ?? 0.5
+  if (typeof adaptiveRounds !== 'object' || Array.isArray(adaptiveRounds)) {
+    problems.push('adaptiveRounds must be an object')
+  } else {
+    if (!isNonNegativeInteger(adaptiveMaxRounds)) problems.push('adaptiveRounds.maxRounds must be a non-negative integer')
+    if (typeof adaptiveMinAgreement !== 'number' || adaptiveMinAgreement < 0 || adaptiveMinAgreement > 1) {
+      problems.push('adaptiveRounds.minAgreement must be a number between 0 and 1')
+    }
+  }
+  if (typeof config.requireComments !== 'boolean') problems.push('requireComments must be true or false')
+  const taskMode = config.taskMode ?? 'ranking'
+  if (taskMode !== 'ranking' && taskMode !== 'pairwise') problems.push('taskMode must be "ranking" or "pairwise"')
+  const allowTies = config.allowTies ?? false
+  if (typeof allowTies !== 'boolean') problems.push('allowTies must be true or false')
+  const scoreScale = config.scoreScale ?? 'none'
+  if (scoreScale !== 'none' && !(scoreScale in SCORE_RANGES)) {
+    problems.push(`scoreScale must be one of none, ${Object.keys(SCORE_RANGES).join(', ')}`)
+  }
+  const errorSpans = config.errorSpans ?? false
+  if (typeof errorSpans !== 'boolean') problems.push('errorSpans must be true or false')
+  const counterbalance = config.counterbalance ?? false
+  if (typeof counterbalance !== 'boolean') problems.push('counterbalance must be true or false')
+  const gold = config.gold ?? {}
+  const goldPerBatch = gold.perBatch ?? 0
+  const goldMinAccuracy = gold.minAccuracy ?? 1
+  if (typeof gold !== 'object' || Array.isArray(gold)) {
+    problems.push('gold must be an object')
+  } else {
+    if (!isNonNegativeInteger(goldPerBatch)) problems.push('gold.perBatch must be a non-negative integer')
+    if (typeof goldMinAccuracy !== 'number' || goldMinAccuracy < 0 || goldMinAccuracy > 1) {
+      problems.push('gold.minAccuracy must be a number between 0 and 1')
+    }
+  }
+  const speedThresholds = config.speedThresholds ?? {}
+  const minDwellSeconds = speedThresholds.minDwellSeconds ?? 15
+  const minCommentSeconds = speedThresholds.minCommentSeconds ?? 5
+  if (typeof minDwellSeconds !== 'number' || minDwellSeconds < 0) problems.push('speedThresholds.minDwellSeconds must be a non-negative number')
+  if (typeof minCommentSeconds !== 'number' || minCommentSeconds < 0) problems.push('speedThresholds.minCommentSeconds must be a non-negative number')
+  const rawLanguagePairs = config.defaultLanguagePairs ?? []
+  const defaultLanguagePairs = parseLanguagePairs(rawLanguagePairs)
+  if (!Array.isArray(rawLanguagePairs) || defaultLanguagePairs.length !== rawLanguagePairs.length) {
+    problems.push('defaultLanguagePairs must be a list of language pairs such as "en:ar"')
+  }
+  if (typeof config.sheetName !== 'string' || !config.sheetName.trim()) problems.push('sheetName must be a non-empty string')
+  const locale = config.locale ?? 'en'
+  if (!isLocale(locale)) problems.push(`locale must be one of ${LOCALES.join(', ')}`)
+  // A plain list of paragraphs is the intro in the study's locale
+  const isParagraphs = (value: unknown) => Array.isArray(value) && value.every(line => typeof line === 'string')
+  const intro = Array.isArray(config.intro) ? { [locale]: config.intro } : config.intro
+  if (
+    typeof intro !== 'object' || intro === null ||
+    !Object.entries(intro).every(([key, paragraphs]) => isLocale(key) && isParagraphs(paragraphs)) ||
+    !isParagraphs(intro[locale])
+  ) {
+    problems.push(`intro must be a list of paragraphs, or map locales (${LOCALES.join(', ')}) to lists including the study locale`)
+  }
+
+  if (problems.length > 0) {
+    throw new StudyConfigError(problems)
+  }
+
+  return {
+    systems: systems.map((code: string) => code.trim()),
+    idFilter: { min: idFilter.min, max: idFilter.max, pattern: idFilter.pattern },
+    batchSize: config.batchSize,
+    requiredRounds: config.requiredRounds,
+    extraRounds,
+    adaptiveRounds: { maxRounds: adaptiveMaxRounds, minAgreement: adaptiveMinAgreement },
+    requireComments: config.requireComments,
+    taskMode,
+    allowTies,
+    scoreScale,
+    errorSpans,
+    counterbalance,
+    gold: { perBatch: goldPerBatch, minAccuracy: goldMinAccuracy },
+    speedThresholds: { minDwellSeconds, minCommentSeconds },
+    defaultLanguagePairs,
+    sheetName: config.sheetName.trim(),
+    locale,
+    intro,
+  }
+}
+
+export const studyConfig = parseStudyConfig(rawStudyConfig)
+
+// Annotator round numbers including spare and adaptive rounds, e.g. [1, 2, 3, 4]
+export function annotatorRounds(config: StudyConfig = studyConfig) {
+  const length = config.requiredRounds + config.extraRounds + config.adaptiveRounds.maxRounds
+  return Array.from({ length }, (_, idx) => idx + 1)
+}
+
+// Whether the first number in a row ID lies within [min, max]; open bounds are ignored
+export function matchesIdRange(id: string, min?: number, max?: number) {
+  if (min === undefined && max === undefined) {
+    return true
+  }
+
+  const numericIdMatch = id.match(/\d+/)
+  const numericId = numericIdMatch ? parseInt(numericIdMatch[0], 10) : null
+  if (numericId === null || Number.isNaN(numericId)) {
+    return false
+  }
+  return (min === undefined || numericId >= min) && (max === undefined || numericId <= max)
+}
+
+// Whether a row ID passes the study's ID filter (numeric range plus optional pattern)
+export function matchesIdFilter(id: string, config: StudyConfig = studyConfig) {
+  const { min, max, pattern } = config.idFilter
+  if (pattern && !new RegExp(pattern).test(id)) {
+    return false
+  }
+  return matchesIdRange(id, min, max)
+}
@@ -0,0 +1,86 @@
+import { annotatorColumnName, findHeader, getCellValue, SheetSnapshot } from './sheet'
+import type { AnnotationUpdate, AnnotationUpdateResult } from './storage/types'
+import { annotatorRounds, StudyConfig, studyConfig } from './study-config'
+
+// Sent by the page with every submission of a batch; retries of that batch reuse the same key
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key'
+
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{8,64}$/
+
+/**
+ * Machine-readable reason sent as `code` next to `error` by /api/next-batch and /api/update-sheet.
+ * The page shows the `serverError_<code>` message of its locale instead of the English `error`.
+ */
+export type ApiErrorCode =
+  | 'invalid_request'
+  | 'too_many_annotations'
+  | 'invalid_annotations'
+  | 'invalid_batch_token'
+  | 'batch_token_expired'
+  | 'batch_mismatch'
+  | 'lease_conflict'
+  | 'reserve_conflict'
+  | 'not_stored'
+  | 'storage_unavailable'
+  | 'server_error'
+
+// Outcome of one submitted sentence, as returned by POST /api/update-sheet
+export interface SentenceResult {
+  id: string
+  status: 'stored' | 'failed'
+  round?: number
+  row?: number
+  error?: string
+  code?: ApiErrorCode // Set with `error` on failed sentences
+  duplicate?: boolean // Stored by an earlier request with the same idempotency key
+}
+
+export interface SubmissionResponse {
+  success: boolean // True only when every submitted sentence was stored
+  message: string
+  results: SentenceResult[]
+  auditError?: string // Stored sentences are missing from the audit log, so `/api/admin/invalidate` cannot reach them
+}
+
+/**
+ * Pairs every submitted annotation with the store's result for it.
+ * A sentence the store did not report on counts as failed, so nothing is lost silently.
+ */
+export function toSentenceResults(annotations: AnnotationUpdate[], updates: AnnotationUpdateResult[]): SentenceResult[] {
+  return annotations.map(ann => {
+    const update = updates.find(candidate => candidate.id === ann.id)
+    if (!update) {
+      return { id: ann.id, status: 'failed', error: 'The store did not report a result for this sentence', code: 'not_stored' }
+    }
+    if (update.success !== true) {
+      return { id: ann.id, status: 'failed', row: update.row, error: update.error || 'The store could not save this sentence', code: 'not_stored' }
+    }
+    return { id: ann.id, status: 'stored', round: update.round, row: update.row, ...(update.duplicate ? { duplicate: true } : {}) }
+  })
+}
+
+export function isValidIdempotencyKey(value: string) {
+  return IDEMPOTENCY_KEY_PATTERN.test(value)
+}
+
+// Key stored with one sentence of a submission, so each sentence is deduplicated on its own
+export function sentenceIdempotencyKey(submissionKey: string, id: string) {
+  return `${submissionKey}:${id}`
+}
+
+// Result for an annotation whose idempotency key is already in the sheet, or null if it was never stored
+export function findStoredSubmission(
+  sheet: SheetSnapshot,
+  ann: AnnotationUpdate,
+  config: StudyConfig = studyConfig
+): SentenceResult | null {
+  if (!ann.idempotencyKey) return null
+  const idField = findHeader(sheet.headers, ['id'])
+  const index = sheet.rows.findIndex(row => getCellValue(row, idField) === ann.id)
+  if (index === -1) return null
+
+  const round = annotatorRounds(config).find(candidate =>
+    getCellValue(sheet.rows[index], findHeader(sheet.headers, [annotatorColumnName(candidate, 'Idempotency_Key')])) === ann.idempotencyKey
+  )
+  return round === undefined ? null : { id: ann.id, status: 'stored', round, row: index + 2, duplicate: true }
+}
@@ -0,0 +1,53 @@
+/**
+ * How an annotator worked on one sentence, collected by the page and stored as JSON in
+ * `Annotator_N_Telemetry` next to the ranking.
+ */
+export interface ItemTelemetry {
+  initialOrder: string[] // Shuffled order the translations were first shown in
+  orderHistory: string[][] // Order after every drag, oldest first
+  dragCount: number
+  dwellMs: number // Time the sentence card was on screen
+  commentEditMs: number // Time the comment box had focus
+}
+
+// Keeps the stored cell well below the sheet's per-cell limit
+export const MAX_ORDER_HISTORY = 100
+
+export function emptyTelemetry(initialOrder: string[]): ItemTelemetry {
+  return { initialOrder, orderHistory: [], dragCount: 0, dwellMs: 0, commentEditMs: 0 }
+}
+
+const isCodeList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(code => typeof code === 'string' && code.length <= 64)
+
+const isDuration = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0
+
+// Returns the telemetry when it has the expected shape, otherwise null; long histories keep their latest entries
+export function parseTelemetry(value: unknown): ItemTelemetry | null {
+  if (typeof value !== 'object' || value === null) return null
+  const raw = value as Record<string, unknown>
+  if (
+    !isCodeList(raw.initialOrder) ||
+    !Array.isArray(raw.orderHistory) || !raw.orderHistory.every(isCodeList) ||
+    !isDuration(raw.dragCount) || !isDuration(raw.dwellMs) || !isDuration(raw.commentEditMs)
+  ) {
+    return null
+  }
+  return {
+    initialOrder: raw.initialOrder,
+    orderHistory: raw.orderHistory.slice(-MAX_ORDER_HISTORY),
+    dragCount: Math.round(raw.dragCount),
+    dwellMs: Math.round(raw.dwellMs),
+    commentEditMs: Math.round(raw.commentEditMs),
+  }
+}
+
+export function parseTelemetryCell(value: string): ItemTelemetry | null {
+  if (!value) return null
+  try {
+    return parseTelemetry(JSON.parse(value))
+  } catch {
+    return null
+  }
+}
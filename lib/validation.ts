@@ -0,0 +1,217 @@
+import type { RowRankings } from './annotations'
+import { ErrorSpan, parseErrorSpans } from './mqm'
+import type { PairJudgment } from './pairwise'
+import { SCORE_RANGES, tieGroupsMatchRanking } from './ranking'
+import type { AnnotationUpdate } from './storage/types'
+import { parseTelemetry } from './telemetry'
+import { StudyConfig, studyConfig } from './study-config'
+
+export type AnnotationErrorCode =
+  | 'invalid_payload'
+  | 'duplicate_row'
+  | 'unknown_row'
+  | 'unknown_system'
+  | 'duplicate_system'
+  | 'missing_system'
+  | 'invalid_ties'
+  | 'invalid_scores'
+  | 'invalid_telemetry'
+  | 'invalid_judgments'
+  | 'invalid_error_spans'
+  | 'missing_comment'
+
+// Why one submitted annotation was rejected; `index` is its position in the request
+export interface AnnotationValidationError {
+  index: number
+  id: string | null
+  code: AnnotationErrorCode
+  message: string
+  systems?: string[] // The offending system codes, when the error is about specific systems
+}
+
+export type AnnotationValidationResult =
+  | { valid: true; annotations: AnnotationUpdate[] }
+  | { valid: false; errors: AnnotationValidationError[] }
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string')
+
+function checkRanking(rankings: string[], systems: string[]) {
+  const unknown = rankings.filter(code => !systems.includes(code))
+  if (unknown.length > 0) {
+    return { code: 'unknown_system' as const, message: `Unknown systems for this sentence: ${unknown.join(', ')}`, systems: unknown }
+  }
+
+  const duplicates = rankings.filter((code, index) => rankings.indexOf(code) !== index)
+  if (duplicates.length > 0) {
+    return { code: 'duplicate_system' as const, message: `Systems ranked more than once: ${duplicates.join(', ')}`, systems: duplicates }
+  }
+
+  const missing = systems.filter(code => !rankings.includes(code))
+  if (missing.length > 0) {
+    return { code: 'missing_system' as const, message: `Systems missing from the ranking: ${missing.join(', ')}`, systems: missing }
+  }
+
+  return null
+}
+
+function parseJudgmentList(value: unknown, systems: string[]): PairJudgment[] | null {
+  // Binary insertion never needs more judgments than there are pairs
+  const maxJudgments = (systems.length * (systems.length - 1)) / 2
+  if (!Array.isArray(value) || value.length > maxJudgments) return null
+  const judgments = value.map(item => {
+    const judgment = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>
+    const { left, right, outcome } = judgment
+    if (
+      typeof left !== 'string' || typeof right !== 'string' || left === right ||
+      !systems.includes(left) || !systems.includes(right) ||
+      (outcome !== 'left' && outcome !== 'right' && outcome !== 'tie')
+    ) {
+      return null
+    }
+    return { left, right, outcome } as PairJudgment
+  })
+  return judgments.every(Boolean) ? (judgments as PairJudgment[]) : null
+}
+
+function checkScores(scores: unknown, rankings: string[], config: StudyConfig) {
+  if (config.scoreScale === 'none') {
+    return 'Scores are not enabled for this study'
+  }
+  const range = SCORE_RANGES[config.scoreScale]
+  if (typeof scores !== 'object' || scores === null || Array.isArray(scores)) {
+    return 'Scores must map system codes to numbers'
+  }
+  const invalid = Object.entries(scores).filter(([code, score]) =>
+    !rankings.includes(code) || typeof score !== 'number' || !Number.isFinite(score) || score < range.min || score > range.max
+  )
+  if (invalid.length > 0) {
+    return `Scores must be between ${range.min} and ${range.max} for ranked systems (invalid: ${invalid.map(([code]) => code).join(', ')})`
+  }
+  return null
+}
+
+/**
+ * Checks every submitted annotation against the row it targets: the ranking must be a
+ * permutation of that row's translation columns, and ties, scores and comments must follow
+ * the study config. Valid payloads are rebuilt from the known fields only, with the row
+ * index taken from the sheet rather than the client.
+ */
+export function validateAnnotations(
+  payload: unknown[],
+  rows: Pick<RowRankings, 'id' | 'rowIndex' | 'systems' | 'translations'>[],
+  config: StudyConfig = studyConfig
+): AnnotationValidationResult {
+  const rowsById = new Map(rows.map(row => [row.id, row]))
+  const seenIds = new Set<string>()
+  const errors: AnnotationValidationError[] = []
+  const annotations: AnnotationUpdate[] = []
+
+  payload.forEach((item, index) => {
+    const ann = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>
+    const id = typeof ann.id === 'string' && ann.id ? ann.id : null
+    const fail = (code: AnnotationErrorCode, message: string, systems?: string[]) => {
+      errors.push({ index, id, code, message, ...(systems ? { systems } : {}) })
+    }
+
+    if (!id || !isStringArray(ann.rankings) || (ann.comment !== undefined && typeof ann.comment !== 'string')) {
+      fail('invalid_payload', 'Each annotation needs a string id, a rankings array of system codes and an optional string comment')
+      return
+    }
+
+    if (seenIds.has(id)) {
+      fail('duplicate_row', `Sentence ${id} is submitted more than once`)
+      return
+    }
+    seenIds.add(id)
+
+    const row = rowsById.get(id)
+    if (!row) {
+      fail('unknown_row', `Sentence ${id} is not part of this study`)
+      return
+    }
+
+    const rankings = ann.rankings
+    const rankingError = checkRanking(rankings, row.systems)
+    if (rankingError) {
+      fail(rankingError.code, rankingError.message, rankingError.systems)
+      return
+    }
+
+    let tieGroups: string[][] | undefined
+    if (ann.tieGroups !== undefined) {
+      if (!config.allowTies) {
+        fail('invalid_ties', 'Ties are not enabled for this study')
+        return
+      }
+      if (!Array.isArray(ann.tieGroups) || !ann.tieGroups.every(isStringArray) || !tieGroupsMatchRanking(ann.tieGroups, rankings)) {
+        fail('invalid_ties', 'Tie groups must follow the submitted ranking order')
+        return
+      }
+      tieGroups = ann.tieGroups
+    }
+
+    if (ann.scores !== undefined) {
+      const scoreError = checkScores(ann.scores, rankings, config)
+      if (scoreError) {
+        fail('invalid_scores', scoreError)
+        return
+      }
+    }
+
+    let pairwiseJudgments: PairJudgment[] | undefined
+    if (ann.pairwiseJudgments !== undefined) {
+      const parsed = config.taskMode === 'pairwise' ? parseJudgmentList(ann.pairwiseJudgments, row.systems) : null
+      if (!parsed) {
+        fail('invalid_judgments', config.taskMode === 'pairwise'
+          ? 'Pairwise judgments must compare two different systems of this sentence with outcome left, right or tie'
+          : 'Pairwise judgments are only accepted in pairwise mode')
+        return
+      }
+      // Without ties the ranking cannot record "about the same", so such a judgment would be stored as a preference
+      if (!config.allowTies && parsed.some(judgment => judgment.outcome === 'tie')) {
+        fail('invalid_judgments', 'Tied pairwise judgments are not accepted when ties are disabled')
+        return
+      }
+      pairwiseJudgments = parsed
+    }
+
+    let errorSpans: ErrorSpan[] | undefined
+    if (ann.errorSpans !== undefined) {
+      const parsed = config.errorSpans ? parseErrorSpans(ann.errorSpans, row.translations) : null
+      if (!parsed) {
+        fail('invalid_error_spans', config.errorSpans
+          ? 'Error spans must lie inside a translation of this sentence and use a known category and severity'
+          : 'Error spans are not enabled for this study')
+        return
+      }
+      errorSpans = parsed
+    }
+
+    const telemetry = ann.telemetry === undefined ? undefined : parseTelemetry(ann.telemetry)
+    if (telemetry === null) {
+      fail('invalid_telemetry', 'Telemetry must list orders of system codes and non-negative counts and durations')
+      return
+    }
+
+    const comment = typeof ann.comment === 'string' ? ann.comment : ''
+    if (config.requireComments && !comment.trim()) {
+      fail('missing_comment', 'A comment is required for every annotation')
+      return
+    }
+
+    annotations.push({
+      id,
+      rowIndex: row.rowIndex,
+      rankings,
+      comment,
+      tieGroups,
+      scores: ann.scores as Record<string, number> | undefined,
+      pairwiseJudgments,
+      errorSpans,
+      telemetry,
+    })
+  })
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, annotations }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+// Everything but the annotation page and the two routes it calls: the reports expose Prolific
+// PIDs, study and session IDs, comments, gold accuracy and speed flags
+export const config = {
+  matcher: [
+    '/admin/:path*',
+    '/leaderboard/:path*',
+    '/api/admin/:path*',
+    '/api/analytics/:path*',
+    '/api/export/:path*',
+    '/api/leaderboard/:path*',
+    '/api/mqm/:path*',
+    '/api/telemetry/:path*',
+  ],
+}
+
+/**
+ * HTTP basic auth for the admin pages, the leaderboard and the reporting API. Any user name is
+ * accepted with the password in ADMIN_PASSWORD; without it these stay closed.
+ */
+export function middleware(request: NextRequest) {
+  const password = process.env.ADMIN_PASSWORD
+  if (!password) {
+    return NextResponse.json(
+      { error: 'Admin area is disabled', hint: 'Set ADMIN_PASSWORD to enable it.' },
+      { status: 503 }
+    )
+  }
+
+  const header = request.headers.get('authorization') || ''
+  const [scheme, encoded] = header.split(' ')
+  if (scheme === 'Basic' && encoded) {
+    try {
+      const decoded = atob(encoded)
+      if (decoded.slice(decoded.indexOf(':') + 1) === password) {
+        return NextResponse.next()
+      }
+    } catch {
+      // Malformed credentials are treated like missing ones
+    }
+  }
+
+  return new NextResponse('Authentication required', {
+    status: 401,
+    headers: { 'WWW-Authenticate': 'Basic realm="Study admin", charset="UTF-8"' },
+  })
+}
@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // Loaded from node_modules at runtime instead of being bundled into every API route
+    serverComponentsExternalPackages: ['googleapis'],
+  },
 }
 
 module.exports = nextConfig
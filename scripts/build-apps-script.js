@@ -0,0 +1,46 @@
+// Bundles google-apps-script.js with lib/round-allocation.ts into build/google-apps-script.js,
+// the single file pasted into the Apps Script editor. The shared module becomes the global `RoundAllocation`.
+const fs = require('fs')
+const path = require('path')
+const ts = require('typescript')
+
+const root = path.join(__dirname, '..')
+
+// The bundle's source text; the tests run it in a sandbox without writing it out
+function bundleAppsScript() {
+  const source = fs.readFileSync(path.join(root, 'lib/round-allocation.ts'), 'utf8')
+  const { outputText, diagnostics } = ts.transpileModule(source, {
+    fileName: 'round-allocation.ts',
+    reportDiagnostics: true,
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019 },
+  })
+  if (diagnostics && diagnostics.length > 0) {
+    throw new Error(ts.formatDiagnostics(diagnostics, ts.createCompilerHost({})))
+  }
+
+  return [
+    '// Generated by `npm run build:apps-script` from lib/round-allocation.ts and google-apps-script.js; edit those instead.',
+    'var RoundAllocation = (function (exports) {',
+    outputText.trim(),
+    'return exports;',
+    '})({});',
+    '',
+    fs.readFileSync(path.join(root, 'google-apps-script.js'), 'utf8'),
+  ].join('\n')
+}
+
+if (require.main === module) {
+  let bundle
+  try {
+    bundle = bundleAppsScript()
+  } catch (error) {
+    console.error(error.message)
+    process.exit(1)
+  }
+  const outPath = path.join(root, 'build/google-apps-script.js')
+  fs.mkdirSync(path.dirname(outPath), { recursive: true })
+  fs.writeFileSync(outPath, bundle)
+  console.log(`Wrote ${path.relative(root, outPath)}`)
+}
+
+module.exports = { bundleAppsScript }
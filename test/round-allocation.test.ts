@@ -0,0 +1,142 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import {
+  auditRow,
+  AUDIT_HEADERS,
+  findRoundWithKey,
+  isRoundFilled,
+  LEASE_HEADERS,
+  leaseRow,
+  parseLeaseRow,
+  rowRoundState,
+  selectAnnotationRound,
+} from '../lib/round-allocation'
+import type { AuditEvent, BatchLease } from '../lib/storage/types'
+
+const rounds = [1, 2, 3]
+const filledRounds = (...filled: number[]) => (round: number) => filled.includes(round)
+
+describe('selectAnnotationRound', () => {
+  test('uses the first empty round without a lease', () => {
+    assert.deepEqual(selectAnnotationRound(rounds, filledRounds()), { round: 1 })
+    assert.deepEqual(selectAnnotationRound(rounds, filledRounds(1, 3)), { round: 2 })
+  })
+
+  test('rejects a row whose rounds are all filled', () => {
+    assert.deepEqual(selectAnnotationRound(rounds, filledRounds(1, 2, 3)), {
+      error: 'All 3 annotator rounds are already filled for this sentence',
+    })
+  })
+
+  test('writes to the leased round even when an earlier one is empty', () => {
+    assert.deepEqual(selectAnnotationRound(rounds, filledRounds(), 2), { round: 2 })
+  })
+
+  test('never moves a leased submission to another round', () => {
+    assert.deepEqual(selectAnnotationRound(rounds, filledRounds(2), 2), {
+      error: 'Annotator round 2 is already filled for this sentence',
+    })
+    assert.deepEqual(selectAnnotationRound(rounds, filledRounds(), 4), { error: 'Unknown annotator round 4' })
+  })
+})
+
+describe('findRoundWithKey', () => {
+  const storedKeys: Record<number, string> = { 1: 'first', 2: 'second', 3: '' }
+
+  test('finds the round a key was stored in', () => {
+    assert.equal(findRoundWithKey(rounds, round => storedKeys[round], 'second'), 2)
+  })
+
+  test('returns null for a new key or a submission without one', () => {
+    assert.equal(findRoundWithKey(rounds, round => storedKeys[round], 'third'), null)
+    assert.equal(findRoundWithKey(rounds, round => storedKeys[round], ''), null)
+    assert.equal(findRoundWithKey(rounds, round => storedKeys[round], undefined), null)
+  })
+})
+
+describe('isRoundFilled', () => {
+  test('counts anything but whitespace as a ranking', () => {
+    assert.equal(isRoundFilled('ca,no'), true)
+    assert.equal(isRoundFilled(0), true)
+    assert.equal(isRoundFilled('  '), false)
+    assert.equal(isRoundFilled(undefined), false)
+  })
+})
+
+describe('rowRoundState', () => {
+  test('asks for the first empty round until the required rankings are counted', () => {
+    assert.deepEqual(rowRoundState(rounds, [true, false, false], [true, true, true], 2), {
+      countedRounds: 1,
+      complete: false,
+      needsAnnotatorRound: 2,
+    })
+    assert.deepEqual(rowRoundState(rounds, [true, true, false], [true, true, true], 2), {
+      countedRounds: 2,
+      complete: true,
+      needsAnnotatorRound: null,
+    })
+  })
+
+  test('does not count excluded rankings', () => {
+    assert.deepEqual(rowRoundState(rounds, [true, true, false], [false, true, true], 2), {
+      countedRounds: 1,
+      complete: false,
+      needsAnnotatorRound: 3,
+    })
+  })
+})
+
+describe('Leases and Audit rows', () => {
+  const lease: BatchLease = {
+    leaseId: 'lease-1',
+    annotatorId: 'annotator-1',
+    round: 2,
+    rowIds: ['12', '345'],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    expiresAt: '2026-01-01T01:30:00.000Z',
+    completedAt: '2026-01-01T00:45:00.000Z',
+    goldRowIds: ['gold-1'],
+    goldResults: { 'gold-1': true },
+    seed: 0,
+  }
+
+  test('round-trips a lease through its row', () => {
+    const row = leaseRow(lease)
+    assert.equal(row.length, LEASE_HEADERS.length)
+    assert.equal(row[LEASE_HEADERS.indexOf('rowIds')], '12,345')
+    assert.deepEqual(parseLeaseRow(row), lease)
+  })
+
+  test('leaves out optional fields that are empty', () => {
+    const { completedAt, goldRowIds, goldResults, seed, ...open } = lease
+    assert.deepEqual(parseLeaseRow(leaseRow(open)), open)
+  })
+
+  test('reads cells that come back as numbers', () => {
+    assert.deepEqual(parseLeaseRow(['lease-1', 'annotator-1', 2, 12, 'a', 'b', '', '', '', 7]), {
+      leaseId: 'lease-1',
+      annotatorId: 'annotator-1',
+      round: 2,
+      rowIds: ['12'],
+      createdAt: 'a',
+      expiresAt: 'b',
+      seed: 7,
+    })
+  })
+
+  test('keeps the whole event in the event column', () => {
+    const event: AuditEvent = {
+      type: 'submission',
+      eventId: 'event-1',
+      at: '2026-01-01T00:00:00.000Z',
+      annotatorId: 'annotator-1',
+      leaseId: 'lease-1',
+      rowId: '12',
+      round: 2,
+      payload: { id: '12', rowIndex: 2, rankings: ['ca', 'no'], comment: '=1+1' },
+    }
+    const row = auditRow(event)
+    assert.equal(row.length, AUDIT_HEADERS.length)
+    assert.deepEqual(JSON.parse(row[AUDIT_HEADERS.indexOf('event')]), event)
+  })
+})
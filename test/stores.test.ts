@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { after, describe, test } from 'node:test'
+import { AppsScriptStore } from '../lib/storage/apps-script-store'
+import { FileStore } from '../lib/storage/file-store'
+import { SheetsApiStore } from '../lib/storage/sheets-api-store'
+import type { AnnotationStore, AnnotationUpdate, BatchLease } from '../lib/storage/types'
+import { studyConfig } from '../lib/study-config'
+import { FakeSheet, startAppsScript } from './support/apps-script'
+import { startSheetsApi } from './support/sheets-api'
+
+const SHEET = [
+  ['id', 'sentence', 'ad', 'an'],
+  ['1', 'Hello', 'Hola', 'Ola'],
+  ['2', 'World', 'Mundo', 'Món'],
+]
+
+// Each step's write and the result every store must report, checked in order on one sheet
+const STEPS: { write: Partial<AnnotationUpdate>; expected: Record<string, unknown> }[] = [
+  { write: { id: '1', idempotencyKey: 'key-a' }, expected: { id: '1', row: 2, round: 1, success: true } },
+  // A retry with the same key reports the round it already used
+  { write: { id: '1', idempotencyKey: 'key-a' }, expected: { id: '1', row: 2, round: 1, success: true, duplicate: true } },
+  { write: { id: '1', idempotencyKey: 'key-b' }, expected: { id: '1', row: 2, round: 2, success: true } },
+  // A leased round is used even though round 1 is still empty
+  { write: { id: '2', round: 2, idempotencyKey: 'key-c' }, expected: { id: '2', row: 3, round: 2, success: true } },
+  {
+    write: { id: '2', round: 2, idempotencyKey: 'key-d' },
+    expected: { id: '2', row: 3, success: false, error: 'Annotator round 2 is already filled for this sentence' },
+  },
+  { write: { id: '2', idempotencyKey: 'key-e' }, expected: { id: '2', row: 3, round: 1, success: true } },
+  {
+    write: { id: '2', round: 99, idempotencyKey: 'key-f' },
+    expected: { id: '2', row: 3, success: false, error: 'Unknown annotator round 99' },
+  },
+  { write: { id: '3', idempotencyKey: 'key-g' }, expected: { id: '3', success: false, error: 'Row not found for ID: 3' } },
+]
+
+const LEASE: BatchLease = {
+  leaseId: 'lease-1',
+  annotatorId: 'annotator-1',
+  round: 3,
+  rowIds: ['1', '2'],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  expiresAt: '2999-01-01T00:00:00.000Z',
+  goldRowIds: ['9'],
+  seed: 42,
+}
+
+const cleanups: (() => Promise<void>)[] = []
+after(() => Promise.all(cleanups.map(cleanup => cleanup())))
+
+const STORES: Record<string, () => Promise<AnnotationStore>> = {
+  file: async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-store-'))
+    cleanups.push(() => fs.rm(dir, { recursive: true, force: true }))
+    const seedCsvPath = path.join(dir, 'seed.csv')
+    await fs.writeFile(seedCsvPath, SHEET.map(row => row.join(',')).join('\n'))
+    return new FileStore({ filePath: path.join(dir, 'annotations.json'), seedCsvPath })
+  },
+  'apps-script': async () => {
+    const standIn = await startAppsScript({ [studyConfig.sheetName]: new FakeSheet(SHEET.map(row => [...row])) }, 'secret')
+    cleanups.push(standIn.close)
+    return new AppsScriptStore({ scriptUrl: standIn.url, secret: 'secret', sheetId: 'sheet', sheetGid: '0' })
+  },
+  'sheets-api': async () => {
+    const standIn = await startSheetsApi({ [studyConfig.sheetName]: SHEET.map(row => [...row]) })
+    cleanups.push(standIn.close)
+    return new SheetsApiStore({ spreadsheetId: 'sheet', sheetName: studyConfig.sheetName, rootUrl: standIn.url })
+  },
+}
+
+// The fields every store reports; the Apps Script adds debugging fields of its own
+const comparable = ({ id, row, round, success, duplicate, error }: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries({ id, row, round, success, duplicate, error }).filter(([, value]) => value !== undefined))
+
+for (const [name, createStore] of Object.entries(STORES)) {
+  describe(`${name} store`, () => {
+    test('allocates rounds like the shared round rules', async () => {
+      const store = await createStore()
+      for (const { write, expected } of STEPS) {
+        const update = { rowIndex: 0, rankings: ['an', 'ad'], comment: 'ok', ...write } as AnnotationUpdate
+        const [result] = await store.writeAnnotations([update])
+        assert.deepEqual(comparable(result as unknown as Record<string, unknown>), expected, JSON.stringify(write))
+      }
+    })
+
+    test('keeps leases in the shared layout', async () => {
+      const store = await createStore()
+      assert.equal(await store.createLease(LEASE), true)
+      assert.equal(await store.createLease({ ...LEASE, leaseId: 'lease-2', rowIds: ['2'] }), false)
+      await store.completeLease(LEASE.leaseId, '2026-01-01T00:30:00.000Z')
+      await store.recordGoldResults(LEASE.leaseId, { 9: true })
+      assert.deepEqual(await store.listLeases(), [
+        { ...LEASE, completedAt: '2026-01-01T00:30:00.000Z', goldResults: { 9: true } },
+      ])
+    })
+  })
+}
+
+describe('Apps Script bundle', () => {
+  test('writes every round cell as plain text', async () => {
+    const sheet = new FakeSheet(SHEET.map(row => [...row]))
+    const standIn = await startAppsScript({ [studyConfig.sheetName]: sheet }, 'secret')
+    cleanups.push(standIn.close)
+    const store = new AppsScriptStore({ scriptUrl: standIn.url, secret: 'secret', sheetId: 'sheet', sheetGid: '0' })
+
+    await store.writeAnnotations([{
+      id: '1',
+      rowIndex: 2,
+      rankings: ['an', 'ad'],
+      comment: '=1+1',
+      participant: { prolificPid: '12,345' },
+    }])
+
+    const headers = sheet.grid[0].map(String)
+    const written = headers.filter(header => header.startsWith('Annotator_1_'))
+    assert.ok(written.length > 2)
+    written.forEach(header => {
+      assert.equal(sheet.formats.get(`2:${headers.indexOf(header) + 1}`), '@', header)
+    })
+  })
+})
@@ -0,0 +1,77 @@
+import vm from 'vm'
+import { bundleAppsScript } from '../../scripts/build-apps-script'
+import { startStandIn } from './http'
+
+type Cell = string | number
+
+// Just enough of a Sheets tab for `google-apps-script.js`; cell formats are recorded per "row:column"
+export class FakeSheet {
+  formats = new Map<string, string>()
+
+  constructor(public grid: Cell[][] = []) {}
+
+  getLastRow() {
+    return this.grid.length
+  }
+
+  getLastColumn() {
+    return Math.max(0, ...this.grid.map(row => row.length))
+  }
+
+  appendRow(values: Cell[]) {
+    this.grid.push([...values])
+  }
+
+  getRange(row: number, column: number, rows = 1, columns = 1) {
+    const sheet = this
+    const cells = (visit: (r: number, c: number, i: number, j: number) => void) => {
+      for (let i = 0; i < rows; i++) for (let j = 0; j < columns; j++) visit(row - 1 + i, column - 1 + j, i, j)
+    }
+    const set = (r: number, c: number, value: Cell) => {
+      sheet.grid[r] = sheet.grid[r] || []
+      for (let k = 0; k < c; k++) if (sheet.grid[r][k] === undefined) sheet.grid[r][k] = ''
+      sheet.grid[r][c] = value
+    }
+    const range = {
+      getValues: () => Array.from({ length: rows }, (_, i) =>
+        Array.from({ length: columns }, (_, j) => sheet.grid[row - 1 + i]?.[column - 1 + j] ?? '')),
+      getValue: () => sheet.grid[row - 1]?.[column - 1] ?? '',
+      setValues: (values: Cell[][]) => {
+        cells((r, c, i, j) => set(r, c, values[i][j]))
+        return range
+      },
+      setValue: (value: Cell) => {
+        set(row - 1, column - 1, value)
+        return range
+      },
+      setNumberFormat: (format: string) => {
+        cells((r, c) => sheet.formats.set(`${r + 1}:${c + 1}`, format))
+        return range
+      },
+      clearContent: () => {
+        cells((r, c) => set(r, c, ''))
+        return range
+      },
+    }
+    return range
+  }
+}
+
+/**
+ * Runs the `npm run build:apps-script` bundle against in-memory tabs and serves its `doPost` the
+ * way the deployed web app does, so `AppsScriptStore` can be pointed at it.
+ */
+export async function startAppsScript(tabs: Record<string, FakeSheet>, secret: string) {
+  const spreadsheet = {
+    getSheetByName: (name: string) => tabs[name] || null,
+    insertSheet: (name: string) => (tabs[name] = new FakeSheet()),
+  }
+  const context = vm.createContext({
+    PropertiesService: { getScriptProperties: () => ({ getProperty: () => secret }) },
+    ContentService: { MimeType: { JSON: 'json' }, createTextOutput: (text: string) => ({ setMimeType: () => text }) },
+    SpreadsheetApp: { openById: () => spreadsheet, flush: () => undefined },
+    LockService: { getScriptLock: () => ({ waitLock: () => undefined, releaseLock: () => undefined }) },
+  })
+  vm.runInContext(bundleAppsScript(), context)
+  return startStandIn((method, path, body) => ({ body: context.doPost({ postData: { contents: body } }) }))
+}
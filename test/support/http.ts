@@ -0,0 +1,33 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http'
+import type { AddressInfo } from 'net'
+
+export interface StandIn {
+  url: string
+  close: () => Promise<void>
+}
+
+// Serves `handle` on a free local port; the handler gets the request path and the raw body
+export async function startStandIn(
+  handle: (method: string, path: string, body: string) => { status?: number; body: unknown }
+): Promise<StandIn> {
+  const server = createServer((request: IncomingMessage, response: ServerResponse) => {
+    let body = ''
+    request.on('data', chunk => (body += chunk))
+    request.on('end', () => {
+      let result: { status?: number; body: unknown }
+      try {
+        result = handle(request.method || 'GET', decodeURIComponent((request.url || '').split('?')[0]), body)
+      } catch (error: any) {
+        result = { status: 400, body: { error: { code: 400, message: error.message } } }
+      }
+      response.writeHead(result.status || 200, { 'content-type': 'application/json' })
+      response.end(typeof result.body === 'string' ? result.body : JSON.stringify(result.body))
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  }
+}
@@ -0,0 +1,89 @@
+import { startStandIn } from './http'
+
+interface Tab {
+  sheetId: number
+  columnCount: number
+  grid: string[][]
+}
+
+// Tab name and 0-based cell of an A1 range such as "'Sheet1'!C4"
+function parseRange(range: string) {
+  const match = range.match(/^'((?:[^']|'')*)'(?:!([A-Z]+)(\d+))?/)
+  if (!match) throw new Error(`Unable to parse range: ${range}`)
+  const column = match[2] ? match[2].split('').reduce((n, letter) => n * 26 + letter.charCodeAt(0) - 64, 0) - 1 : 0
+  return { name: match[1].replace(/''/g, "'"), row: match[3] ? Number(match[3]) - 1 : 0, column }
+}
+
+/**
+ * Serves the few Sheets API v4 calls `SheetsApiStore` makes (values get/update/append/batchUpdate,
+ * adding tabs and columns) from in-memory grids.
+ */
+export async function startSheetsApi(grids: Record<string, string[][]>) {
+  const tabs: Record<string, Tab> = {}
+  Object.entries(grids).forEach(([name, grid], index) => {
+    tabs[name] = { sheetId: index, columnCount: 26, grid }
+  })
+
+  const write = (range: string, values: string[][]) => {
+    const { name, row, column } = parseRange(range)
+    const tab = tabs[name]
+    values.forEach((rowValues, i) => rowValues.forEach((value, j) => {
+      if (column + j >= tab.columnCount) throw new Error(`Range ${range} exceeds grid limits`)
+      tab.grid[row + i] = tab.grid[row + i] || []
+      for (let k = 0; k < column + j; k++) tab.grid[row + i][k] = tab.grid[row + i][k] ?? ''
+      tab.grid[row + i][column + j] = value
+    }))
+  }
+
+  const standIn = await startStandIn((method, path, rawBody) => {
+    const url = path.replace(/^\/v4\/spreadsheets\/[^/:]+/, '')
+    const body = rawBody ? JSON.parse(rawBody) : {}
+
+    if (method === 'GET' && url === '') {
+      return { body: { sheets: Object.entries(tabs).map(([title, tab]) => ({
+        properties: { title, sheetId: tab.sheetId, gridProperties: { columnCount: tab.columnCount } },
+      })) } }
+    }
+    if (url === ':batchUpdate') {
+      body.requests.forEach((request: any) => {
+        if (request.addSheet) {
+          tabs[request.addSheet.properties.title] = { sheetId: Object.keys(tabs).length, columnCount: 26, grid: [] }
+        }
+        if (request.appendDimension) {
+          Object.values(tabs).find(tab => tab.sheetId === request.appendDimension.sheetId)!.columnCount += request.appendDimension.length
+        }
+      })
+      return { body: {} }
+    }
+    if (url === '/values:batchUpdate') {
+      body.data.forEach(({ range, values }: { range: string; values: string[][] }) => write(range, values))
+      return { body: {} }
+    }
+    if (url === '/values:batchClear') {
+      body.ranges.forEach((range: string) => write(range, [['']]))
+      return { body: {} }
+    }
+    const append = url.match(/^\/values\/(.+):append$/)
+    if (append) {
+      tabs[parseRange(append[1]).name].grid.push(...body.values)
+      return { body: {} }
+    }
+    const values = url.match(/^\/values\/(.+)$/)
+    if (values && method === 'PUT') {
+      write(values[1], body.values)
+      return { body: {} }
+    }
+    if (values && method === 'GET') {
+      const tab = tabs[parseRange(values[1]).name]
+      if (!tab) return { status: 400, body: { error: { code: 400, message: 'Unable to parse range' } } }
+      // Like the real API, trailing empty cells are left out
+      return { body: { values: tab.grid.map(row => {
+        const trimmed = [...row]
+        while (trimmed.length > 0 && trimmed[trimmed.length - 1] === '') trimmed.pop()
+        return trimmed
+      }) } }
+    }
+    return { status: 404, body: { error: { code: 404, message: `Not found: ${url}` } } }
+  })
+  return { ...standIn, tabs }
+}